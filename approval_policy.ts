@@ -0,0 +1,264 @@
+/**
+ * approval_policy.ts
+ *
+ * Declarative curation decisions. A policy file (policies/approval.json by default) lists rules in order; each
+ * rule has a decision (approve, reject, needs_review or skip) and a `when` object of conditions on named offer
+ * facts, all of which must hold. The first matching rule decides, and offers no rule matches get the policy's
+ * default. Facts come from the graded result after reviewer decisions and offer clusters are merged, plus the
+ * structured offer.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { GradingResult, JsonValue, StructuredOffer } from './offer_curation.js';
+import { countLintFindings } from './offer_lint.js';
+
+export type PolicyDecision = 'approve' | 'reject' | 'needs_review' | 'skip';
+export type ConditionOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'not_in' | 'includes' | 'excludes';
+export type FactValue = string | number | boolean | null | string[];
+
+export const POLICY_DECISIONS: PolicyDecision[] = ['approve', 'reject', 'needs_review', 'skip'];
+
+// Feed statuses `decide` records in the review log for final decisions, and the reviewer name it records them
+// under; status decisions by anyone else are left alone.
+export const DECISION_STATUSES: Partial<Record<PolicyDecision, string>> = { approve: 'CURATED', reject: 'REJECTED' };
+export const POLICY_REVIEWER = 'policy';
+
+export interface PolicyRule {
+  id: string;
+  decision: PolicyDecision;
+  description?: string;
+  // Fact name to conditions on it, e.g. { "score": { "gte": 4 } }; an empty object matches every offer.
+  when: Record<string, Partial<Record<ConditionOperator, JsonValue>>>;
+}
+
+export interface ApprovalPolicy {
+  // File the policy was read from, recorded with each decision.
+  source: string;
+  default: PolicyDecision;
+  rules: PolicyRule[];
+}
+
+export interface PolicyOutcome {
+  decision: PolicyDecision;
+  // Rule that fired; null when no rule matched and the policy default applied.
+  rule: string | null;
+  policy: string;
+}
+
+export interface Reclassification {
+  activity_id: string;
+  before: PolicyOutcome;
+  after: PolicyOutcome;
+}
+
+type FactKind = 'number' | 'boolean' | 'string' | 'list';
+
+interface FactDefinition {
+  kind: FactKind;
+  value(result: GradingResult, offer: StructuredOffer | null): FactValue;
+}
+
+// --- Section: Facts ---
+const FACTS: Record<string, FactDefinition> = {
+  score: { kind: 'number', value: (result) => result.score },
+  valid: { kind: 'boolean', value: (result) => result.valid },
+  has_hero: { kind: 'boolean', value: (result) => Boolean(result.hero_image_url) },
+  hero_flag_count: { kind: 'number', value: (result) => result.hero_flags.length },
+  categories: { kind: 'list', value: (result) => result.categories },
+  target_audiences: { kind: 'list', value: (result) => result.target_audiences },
+  category_mismatch: { kind: 'boolean', value: (result) => result.category_mismatch },
+  audience_flag_count: { kind: 'number', value: (result) => result.audience_flags.length },
+  lint_errors: { kind: 'number', value: (result) => countLintFindings(result.lint_findings, 'error') },
+  lint_warnings: { kind: 'number', value: (result) => countLintFindings(result.lint_findings, 'warning') },
+  lint_rules: { kind: 'list', value: (result) => [...new Set(result.lint_findings.map((finding) => finding.rule))] },
+  location_type: { kind: 'string', value: (result) => result.location_type ?? null },
+  location_flag_count: { kind: 'number', value: (result) => (result.location_flags ?? []).length },
+  confidence: { kind: 'number', value: (result) => result.ensemble?.confidence ?? null },
+  review_route: { kind: 'string', value: (result) => result.ensemble?.route ?? null },
+  review_state: { kind: 'string', value: (result) => result.review?.state ?? 'unreviewed' },
+  image_count: { kind: 'number', value: (_, offer) => offer?.images.length ?? null },
+  package_count: { kind: 'number', value: (_, offer) => offer?.packages.length ?? null },
+  city: { kind: 'string', value: (_, offer) => offer?.city ?? null },
+  country: { kind: 'string', value: (_, offer) => offer?.country ?? null },
+  category: { kind: 'string', value: (_, offer) => (offer?.category || '').trim() || null },
+  // Null when the offer is not in a cluster of duplicate or competing offers.
+  cluster_kind: { kind: 'string', value: (result) => result.cluster?.kind ?? null },
+  cluster_best: { kind: 'boolean', value: (result) => result.cluster?.best ?? null },
+};
+
+export const FACT_NAMES = Object.keys(FACTS);
+
+const OPERATORS_BY_KIND: Record<FactKind, ConditionOperator[]> = {
+  number: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'not_in'],
+  boolean: ['eq', 'ne'],
+  string: ['eq', 'ne', 'in', 'not_in'],
+  list: ['includes', 'excludes'],
+};
+
+export function offerFacts(result: GradingResult, offer: StructuredOffer | null): Record<string, FactValue> {
+  return Object.fromEntries(FACT_NAMES.map((name) => [name, FACTS[name].value(result, offer)]));
+}
+
+// --- Section: Policy file ---
+function checkOperand(kind: FactKind, operator: ConditionOperator, operand: unknown): boolean {
+  const scalar = (value: unknown) =>
+    value === null || (kind === 'list' ? typeof value === 'string' : typeof value === (kind as string));
+  if (operator === 'in' || operator === 'not_in') {
+    return Array.isArray(operand) && operand.every(scalar);
+  }
+  return scalar(operand) && (!['gt', 'gte', 'lt', 'lte'].includes(operator) || operand !== null);
+}
+
+function parseRule(raw: any, position: string, seen: Set<string>): PolicyRule {
+  const fail = (message: string): never => {
+    throw new Error(`Policy rule ${position}: ${message}`);
+  };
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    fail('must be an object.');
+  }
+  if (typeof raw.id !== 'string' || !raw.id.trim()) {
+    fail('id must be a non-empty string.');
+  }
+  if (seen.has(raw.id)) {
+    fail(`id "${raw.id}" is used by an earlier rule.`);
+  }
+  seen.add(raw.id);
+  if (!POLICY_DECISIONS.includes(raw.decision)) {
+    fail(`decision must be one of ${POLICY_DECISIONS.join(', ')}.`);
+  }
+  const when = raw.when ?? {};
+  if (typeof when !== 'object' || Array.isArray(when)) {
+    fail('when must be an object of fact names to conditions.');
+  }
+  for (const [fact, conditions] of Object.entries<any>(when)) {
+    const definition = FACTS[fact];
+    if (!definition) {
+      fail(`unknown fact "${fact}". Known facts: ${FACT_NAMES.join(', ')}.`);
+    }
+    if (!conditions || typeof conditions !== 'object' || Array.isArray(conditions) || !Object.keys(conditions).length) {
+      fail(`conditions on "${fact}" must be an object such as { "eq": ... }.`);
+    }
+    const allowed = OPERATORS_BY_KIND[definition.kind];
+    for (const [operator, operand] of Object.entries(conditions)) {
+      if (!allowed.includes(operator as ConditionOperator)) {
+        fail(`"${fact}" is a ${definition.kind} fact; use one of ${allowed.join(', ')}, not "${operator}".`);
+      }
+      if (!checkOperand(definition.kind, operator as ConditionOperator, operand)) {
+        const expected = operator === 'in' || operator === 'not_in' ? 'an array of values' : 'a value';
+        const got = JSON.stringify(operand);
+        fail(`"${fact}" ${operator} needs ${expected} matching the ${definition.kind} fact, got ${got}.`);
+      }
+    }
+  }
+  return {
+    id: raw.id,
+    decision: raw.decision,
+    ...(typeof raw.description === 'string' && raw.description ? { description: raw.description } : {}),
+    when,
+  };
+}
+
+export async function loadPolicy(filePath: string): Promise<ApprovalPolicy> {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Failed to read approval policy ${filePath}: ${error?.message || error}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.rules)) {
+    throw new Error(`Approval policy ${filePath} must be an object with a "rules" array.`);
+  }
+  const fallback = parsed.default ?? 'needs_review';
+  if (!POLICY_DECISIONS.includes(fallback)) {
+    throw new Error(`Approval policy ${filePath}: default must be one of ${POLICY_DECISIONS.join(', ')}.`);
+  }
+  const seen = new Set<string>();
+  return {
+    source: path.basename(filePath),
+    default: fallback,
+    rules: parsed.rules.map((raw: unknown, index: number) => parseRule(raw, `#${index + 1} in ${filePath}`, seen)),
+  };
+}
+
+// --- Section: Evaluation ---
+function holds(fact: FactValue, operator: ConditionOperator, operand: JsonValue): boolean {
+  switch (operator) {
+    case 'eq':
+      return fact === operand;
+    case 'ne':
+      return fact !== operand;
+    case 'gt':
+      return typeof fact === 'number' && fact > (operand as number);
+    case 'gte':
+      return typeof fact === 'number' && fact >= (operand as number);
+    case 'lt':
+      return typeof fact === 'number' && fact < (operand as number);
+    case 'lte':
+      return typeof fact === 'number' && fact <= (operand as number);
+    case 'in':
+      return (operand as JsonValue[]).includes(fact as string | number | null);
+    case 'not_in':
+      return !(operand as JsonValue[]).includes(fact as string | number | null);
+    case 'includes':
+      return Array.isArray(fact) && fact.includes(operand as string);
+    case 'excludes':
+      return Array.isArray(fact) && !fact.includes(operand as string);
+  }
+}
+
+export function evaluatePolicy(policy: ApprovalPolicy, facts: Record<string, FactValue>): PolicyOutcome {
+  const rule = policy.rules.find((candidate) =>
+    Object.entries(candidate.when).every(([fact, conditions]) =>
+      Object.entries(conditions).every(([operator, operand]) =>
+        holds(facts[fact], operator as ConditionOperator, operand as JsonValue)
+      )
+    )
+  );
+  return { decision: rule?.decision ?? policy.default, rule: rule?.id ?? null, policy: policy.source };
+}
+
+function offersById(offers: StructuredOffer[]): Map<string, StructuredOffer> {
+  return new Map(offers.map((offer) => [String(offer.activity_id ?? ''), offer]));
+}
+
+/**
+ * Sets `decision` on each result; run it after reviewer decisions are merged so overrides count.
+ */
+export function applyPolicy(
+  results: GradingResult[],
+  offers: StructuredOffer[],
+  policy: ApprovalPolicy
+): GradingResult[] {
+  const byId = offersById(offers);
+  return results.map((result) => {
+    const offer = byId.get(String(result.activity_id ?? '')) ?? null;
+    return { ...result, decision: evaluatePolicy(policy, offerFacts(result, offer)) };
+  });
+}
+
+/**
+ * Results whose decision differs between two policies, for a dry run of a policy change.
+ */
+export function reclassify(
+  results: GradingResult[],
+  offers: StructuredOffer[],
+  before: ApprovalPolicy,
+  after: ApprovalPolicy
+): Reclassification[] {
+  const byId = offersById(offers);
+  return results
+    .map((result) => {
+      const facts = offerFacts(result, byId.get(String(result.activity_id ?? '')) ?? null);
+      return {
+        activity_id: String(result.activity_id ?? ''),
+        before: evaluatePolicy(before, facts),
+        after: evaluatePolicy(after, facts),
+      };
+    })
+    .filter((change) => change.before.decision !== change.after.decision);
+}
+
+export function describeOutcome(outcome: PolicyOutcome): string {
+  return `${outcome.decision} (${outcome.rule ? `rule "${outcome.rule}"` : 'policy default'})`;
+}
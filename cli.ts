@@ -0,0 +1,864 @@
+/**
+ * cli.ts
+ *
+ * Command-line entry point for the offer curation pipeline. Subcommands wrap the functions exported by
+ * offer_curation.ts:
+ *
+ *   load                 validate and summarise the offers directory, with a per-file ingestion report
+ *   prompt <activity_id> print the grading prompt for one offer
+ *   lint                 run the pre-grading lint rules and print per-offer findings
+ *   grade                grade offers (reusing cached results) and write the exports
+ *   export               write the exports from cached results without calling the model
+ *   review <activity_id> show or record reviewer decisions for one graded offer
+ *   changes <activity_id> list the recorded versions of one offer and what changed between them
+ *   rewrite              suggest house-style titles, subtitles and descriptions, shown as diffs
+ *   serve                local web dashboard over the offers and stored results
+ *   compare              grade the same offers under two prompt versions or models and report the differences
+ *   eval                 grade the gold-labelled offers and check quality metrics against thresholds
+ *   locales              report which target locales each offer is missing a title, description or package names in
+ *   decide               apply the approval policy to stored results and record approve/reject as feed statuses
+ *   duplicates           cluster duplicate and competing offers across activity IDs and suggest the best of each
+ *   intake               service that receives offers by webhook or queue and grades them as they arrive
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+import {
+  configFromEnv,
+  CurationConfig,
+  DEFAULT_CONFIG_FILE,
+  loadConfigFile,
+  normaliseConfigValues,
+  resolveConfig,
+} from './curation_config.js';
+import {
+  buildGradingRequest,
+  collectStoredResults,
+  GradingResult,
+  ingestOffers,
+  JsonValue,
+  loadOffers,
+  offerStatus,
+  OfferFilters,
+  runGrading,
+  selectOffers,
+} from './offer_curation.js';
+import { EXPORT_FORMATS, writeExports } from './exporters.js';
+import { countLintFindings, formatLintFinding, lintOffer } from './offer_lint.js';
+import { rankOfferImages } from './image_analysis.js';
+import { startDashboard } from './dashboard.js';
+import { DEFAULT_PROMPT_VERSION, loadPromptTemplate } from './prompt_templates.js';
+import { compareVariants, formatComparison } from './prompt_compare.js';
+import { formatEvalReport, GoldEntry, loadGoldSet, runEvaluation } from './gold_eval.js';
+import { describeChange, diffSnapshots, OfferChange, openSnapshotStore, snapshotOffer } from './offer_snapshots.js';
+import { formatSuggestion, runRewrites } from './copy_rewrite.js';
+import {
+  applyPolicy,
+  ApprovalPolicy,
+  DECISION_STATUSES,
+  describeOutcome,
+  loadPolicy,
+  POLICY_DECISIONS,
+  POLICY_REVIEWER,
+  reclassify,
+} from './approval_policy.js';
+import { applyClusters, describeCluster, findClusters, OfferCluster } from './offer_similarity.js';
+import { openGradingQueue } from './grading_queue.js';
+import { createOfferQueue } from './intake_queue.js';
+import { runIntakeCycle, startIntakeService } from './intake_service.js';
+import { buildCompletenessReport, formatCompletenessReport, isComplete, offerKey } from './locales.js';
+import {
+  applyReviews,
+  applyReviewStatuses,
+  modelValue,
+  openReviewStore,
+  parseReviewValue,
+  REVIEW_FIELDS,
+  ReviewField,
+  ReviewStore,
+} from './review_store.js';
+import { createRunId } from './run_manifest.js';
+import { configureLogging, withLogContext } from './run_log.js';
+
+const USAGE = `Usage: cli.ts <command> [options]
+
+Commands:
+  load                   Validate and summarise the offers directory
+                         (--report <file> also writes the ingestion report as JSON)
+  prompt <activity_id>   Print the grading prompt for one offer
+  lint                   Run the pre-grading lint rules and print per-offer findings
+  grade                  Grade offers and write the exports (unchanged offers come from the cache)
+  export                 Write the exports from cached results without calling the model (every status is
+                         included unless --exclude-status is set)
+  review <activity_id>   Show the review state and history of one graded offer; with --field, record a
+                         decision: --accept keeps the model's value, --set <value> overrides it
+                         (lists use "; ", --set none clears the hero image, --field status --set CURATED)
+  rewrite                Suggest a house-style title, subtitle and description for the selected offers and
+                         print each as a diff against the original (--report <file> saves JSON)
+  changes <activity_id>  List the recorded snapshots of one offer, the changes between them and any changes
+                         in the offer file not yet recorded, with the re-grade policy for each
+  serve                  Start the local dashboard (--host, --port; default 127.0.0.1:4173)
+  compare                Grade the selected offers under the configured prompt version and model (A) and
+                         again with --against-prompt <version> and/or --against-model <name> (B), then
+                         report score deltas, category and hero agreement and cost (--report <file> saves JSON)
+  eval                   Grade the gold set (--gold) without the cache, print metrics and a per-offer diff,
+                         and exit 1 when a metric crosses its threshold (--report <file> saves JSON)
+  locales                List the target locales (--target-locales) each offer has no title, description or
+                         package names in, and exit 1 when any is incomplete (--report <file> saves JSON)
+  decide                 Apply the approval policy (--policy) to the stored results, print each decision and
+                         the rule that made it, and record approve as CURATED and reject as REJECTED in the
+                         review log (not with --dry-run, and never over a reviewer's status decision);
+                         a status it recorded earlier is cleared when the offer is no longer approved or
+                         rejected, and its own CURATED offers are re-evaluated unless --exclude-status is set;
+                         --against-policy <file> lists the offers another policy would decide differently
+  duplicates             Cluster offers in the same city that look like duplicate listings or competing
+                         offers (title, description, location, images, packages) and suggest the best
+                         offer in each cluster (--report <file> saves JSON)
+  intake                 Receive Klook activity payloads by POST /offers (?locale=zh_TW) and from the inbox
+                         directory (--intake-dir), write them to the offers directory and grade them from a
+                         durable queue (--queue); --once handles what is waiting and exits (default port 4174)
+
+Options:
+  --config <file>            JSON config file (default: ./${DEFAULT_CONFIG_FILE} if present)
+  --offers-dir <dir>         Directory of Klook offer JSON files
+  --output <file>            Output path; formats other than the one it names get their own extension
+  --format <list>            Comma-separated export formats: ${EXPORT_FORMATS.join(', ')} (default: csv)
+  --provider <name>          openai, fixture or record
+  --fixtures-dir <dir>       Fixture directory for the fixture and record providers
+  --cache <file>             Grading cache (JSONL)
+  --snapshots <file>         Offer snapshot history (JSONL)
+  --image-cache <dir>        Local copies of offer images for image analysis (never downloaded)
+  --model <name>             Model name
+  --effort <level>           Reasoning effort: minimal, low, medium or high
+  --concurrency <n>          Maximum concurrent model calls
+  --max-images <n>           Images listed in the prompt and sent to the model
+  --max-output-tokens <n>    Output token cap per call
+  --max-retries <n>          Calls per request before a retryable error is final
+  --prompt-version <name>    Prompt template version under prompts/ (default: ${DEFAULT_PROMPT_VERSION})
+  --against-prompt <name>    Prompt version for variant B of compare
+  --against-model <name>     Model for variant B of compare
+  --gold <file>              Gold-labelled offer set for eval
+  --ensemble <n>             Grade each offer n times and aggregate the passes (per effort with --ensemble-efforts)
+  --ensemble-efforts <list>  Comma-separated reasoning efforts, one ensemble pass each
+  --locale <locale>          Storefront locale to grade in, e.g. en_AU or zh_TW (default: en_AU)
+  --target-locales <list>    Comma-separated locales checked by the locales report
+  --budget <usd>             Stop queuing offers once the projected spend would exceed this
+  --manifest-dir <dir>       Directory for run manifests (token usage, cost, latency)
+  --only <ids>               Comma-separated activity IDs (grade re-grades these even if cached)
+  --status <list>            Only offers with these statuses (use NONE for offers without one)
+  --exclude-status <list>    Skip offers with these statuses (default: CURATED; none for export and decide)
+  --force                    Re-grade every selected offer, ignoring the cache
+  --reviews <file>           Reviewer decision log (JSONL)
+  --policy <file>            Approval policy applied by grade, export, decide and the dashboard
+  --against-policy <file>    Policy to compare the configured one with in decide
+  --dry-run                  Print decide's decisions without recording them
+  --field <name>             Field to review: ${REVIEW_FIELDS.join(', ')}
+  --accept                   Accept the model's current value for --field
+  --set <value>              Override --field with this value
+  --note <text>              Note stored with the decision
+  --reviewer <name>          Reviewer name (default: $OFFER_GRADING_REVIEWER or the OS user)
+  --queue <file>             Durable grading queue of received offers (JSONL)
+  --intake-dir <dir>         Inbox directory of the file intake queue
+  --once                     Run one intake cycle instead of the service
+  --host <address>           Dashboard or intake bind address
+  --port <n>                 Dashboard or intake port
+  --log-level <level>        Lowest log level written to stderr: debug, info, warn or error (default: info)
+  --log-format <format>      Log lines as json or text (default: json)
+  --artifacts <dir>          Write the exact model requests and responses behind each grade under this directory
+  -h, --help                 Show this help
+`;
+
+const OPTIONS = {
+  config: { type: 'string' },
+  'offers-dir': { type: 'string' },
+  output: { type: 'string' },
+  format: { type: 'string' },
+  provider: { type: 'string' },
+  'fixtures-dir': { type: 'string' },
+  cache: { type: 'string' },
+  snapshots: { type: 'string' },
+  'image-cache': { type: 'string' },
+  model: { type: 'string' },
+  effort: { type: 'string' },
+  concurrency: { type: 'string' },
+  'max-images': { type: 'string' },
+  'max-output-tokens': { type: 'string' },
+  'max-retries': { type: 'string' },
+  'prompt-version': { type: 'string' },
+  'against-prompt': { type: 'string' },
+  'against-model': { type: 'string' },
+  gold: { type: 'string' },
+  ensemble: { type: 'string' },
+  'ensemble-efforts': { type: 'string' },
+  locale: { type: 'string' },
+  'target-locales': { type: 'string' },
+  budget: { type: 'string' },
+  'manifest-dir': { type: 'string' },
+  only: { type: 'string' },
+  status: { type: 'string' },
+  'exclude-status': { type: 'string' },
+  force: { type: 'boolean' },
+  reviews: { type: 'string' },
+  policy: { type: 'string' },
+  'against-policy': { type: 'string' },
+  'dry-run': { type: 'boolean' },
+  field: { type: 'string' },
+  accept: { type: 'boolean' },
+  set: { type: 'string' },
+  note: { type: 'string' },
+  reviewer: { type: 'string' },
+  queue: { type: 'string' },
+  'intake-dir': { type: 'string' },
+  once: { type: 'boolean' },
+  host: { type: 'string' },
+  port: { type: 'string' },
+  'log-level': { type: 'string' },
+  'log-format': { type: 'string' },
+  artifacts: { type: 'string' },
+  report: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type ParsedFlags = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+// --- Section: Flag and config resolution ---
+function splitList(value: string | undefined, upperCase = false): Set<string> | null {
+  if (value == null) {
+    return null;
+  }
+  const items = value
+    .split(',')
+    .map((item) => (upperCase ? item.trim().toUpperCase() : item.trim()))
+    .filter(Boolean);
+  return new Set(items);
+}
+
+async function buildConfig(flags: ParsedFlags): Promise<CurationConfig> {
+  const configPath = path.resolve(flags.config ?? DEFAULT_CONFIG_FILE);
+  const fileLayer = await loadConfigFile(configPath, flags.config != null);
+  const flagLayer = normaliseConfigValues(
+    {
+      offersDir: flags['offers-dir'],
+      outputPath: flags.output,
+      exportFormats: flags.format,
+      provider: flags.provider,
+      fixturesDir: flags['fixtures-dir'],
+      cachePath: flags.cache,
+      snapshotsPath: flags.snapshots,
+      reviewsPath: flags.reviews,
+      policyPath: flags.policy,
+      gradingQueuePath: flags.queue,
+      intakeDir: flags['intake-dir'],
+      imageCacheDir: flags['image-cache'],
+      model: flags.model,
+      reasoningEffort: flags.effort,
+      concurrency: flags.concurrency,
+      maxImagesToReview: flags['max-images'],
+      maxOutputTokens: flags['max-output-tokens'],
+      maxRetries: flags['max-retries'],
+      promptVersion: flags['prompt-version'],
+      goldSetPath: flags.gold,
+      ensembleRuns: flags.ensemble,
+      ensembleEfforts: flags['ensemble-efforts'],
+      locale: flags.locale,
+      targetLocales: flags['target-locales'],
+      budgetUsd: flags.budget,
+      manifestDir: flags['manifest-dir'],
+      logLevel: flags['log-level'],
+      logFormat: flags['log-format'],
+      artifactsDir: flags.artifacts,
+    },
+    process.cwd(),
+    'command-line flags'
+  );
+  return resolveConfig(fileLayer, configFromEnv(process.env), flagLayer);
+}
+
+function buildFilters(flags: ParsedFlags): OfferFilters {
+  const excluded = splitList(flags['exclude-status'], true);
+  return {
+    only: splitList(flags.only),
+    statuses: splitList(flags.status, true),
+    ...(excluded ? { excludeStatuses: excluded } : {}),
+  };
+}
+
+/**
+ * Clusters every loaded offer, whatever the filters selected, so an offer keeps its cluster when a sibling is
+ * filtered out (as the dashboard does). `results` are reviewed and replace the stored grades of their offers.
+ */
+async function clusterAllOffers(
+  config: CurationConfig,
+  results: GradingResult[],
+  store: ReviewStore
+): Promise<OfferCluster[]> {
+  const { results: stored, offers } = await collectStoredResults(config, { excludeStatuses: new Set<string>() });
+  const given = new Set(results.map((result) => String(result.activity_id ?? '')));
+  const others = stored.filter((result) => !given.has(String(result.activity_id ?? '')));
+  return findClusters(offers, [...results, ...applyReviews(others, store)], config);
+}
+
+// --- Section: Subcommands ---
+async function runLoad(config: CurationConfig, flags: ParsedFlags): Promise<number> {
+  const { offers: allOffers, reports } = await ingestOffers(config.offersDir);
+  const reviews = await openReviewStore(config.reviewsPath);
+  const offers = selectOffers(applyReviewStatuses(allOffers, reviews), buildFilters(flags));
+  let withErrors = 0;
+
+  for (const report of reports) {
+    const problems = report.issues.filter((issue) => issue.severity !== 'info');
+    const unknown = report.issues.length - problems.length;
+    if (!report.accepted || problems.length || unknown) {
+      console.log(`${report.accepted ? 'ACCEPTED' : 'REJECTED'} ${report.file}`);
+    }
+    for (const issue of problems) {
+      console.log(`  [${issue.severity}] ${issue.kind} ${issue.path}: ${issue.message}`);
+    }
+    if (unknown) {
+      console.log(`  ${unknown} unknown fields (see --report for details)`);
+    }
+  }
+
+  for (const offer of offers) {
+    const findings = lintOffer(offer, config);
+    const errors = countLintFindings(findings, 'error');
+    if (errors) {
+      withErrors += 1;
+    }
+    console.log(
+      [
+        String(offer.activity_id).padEnd(8),
+        offer.locale.padEnd(6),
+        (offer.title || '').trim().slice(0, 48).padEnd(48),
+        (offer.city || '').padEnd(14),
+        `${offer.images.length} images`.padEnd(10),
+        `${offer.packages.length} packages`.padEnd(12),
+        offerStatus(offer).padEnd(8),
+        `${errors} lint errors, ${countLintFindings(findings, 'warning')} warnings`,
+      ].join(' ')
+    );
+  }
+
+  const rejected = reports.filter((report) => !report.accepted).length;
+  const warned = reports.filter((report) => report.issues.some((issue) => issue.severity === 'warning')).length;
+  console.log(
+    `\n${reports.length} files in ${config.offersDir}: ${allOffers.length} accepted, ${rejected} rejected, ` +
+      `${warned} with warnings; ${offers.length} offers selected, ${withErrors} with lint errors.`
+  );
+
+  if (flags.report) {
+    const reportPath = path.resolve(flags.report);
+    await fs.promises.writeFile(reportPath, `${JSON.stringify(reports, null, 2)}\n`, 'utf-8');
+    console.log(`Ingestion report written to ${reportPath}`);
+  }
+  return rejected || withErrors ? 1 : 0;
+}
+
+async function runLint(config: CurationConfig, filters: OfferFilters): Promise<number> {
+  const reviews = await openReviewStore(config.reviewsPath);
+  const offers = selectOffers(
+    applyReviewStatuses(await loadOffers(config.offersDir, config.locale), reviews),
+    filters
+  );
+  let errors = 0;
+  for (const offer of offers) {
+    const findings = lintOffer(offer, config);
+    errors += countLintFindings(findings, 'error');
+    console.log(`${offer.activity_id} ${(offer.title || '').trim()}`);
+    if (!findings.length) {
+      console.log('  No findings.');
+    }
+    findings.forEach((finding) => console.log(`  ${formatLintFinding(finding)}`));
+  }
+  return errors ? 1 : 0;
+}
+
+async function runPrompt(config: CurationConfig, activityId: string | undefined): Promise<number> {
+  if (!activityId) {
+    console.error('prompt requires an activity ID.');
+    return 2;
+  }
+  const offers = await loadOffers(config.offersDir, config.locale);
+  const offer = offers.find((item) => String(item.activity_id ?? '') === activityId);
+  if (!offer) {
+    console.error(`No offer with activity ID ${activityId} in ${config.offersDir}.`);
+    return 1;
+  }
+  console.log(buildGradingRequest(await rankOfferImages(offer, config), config).prompt);
+  return 0;
+}
+
+async function runGrade(config: CurationConfig, flags: ParsedFlags): Promise<number> {
+  const { results, offers } = await runGrading(config, { ...buildFilters(flags), force: Boolean(flags.force) });
+  if (!results.length) {
+    return 0;
+  }
+  const store = await openReviewStore(config.reviewsPath);
+  const reviewed = applyReviews(results, store);
+  const clustered = applyClusters(reviewed, await clusterAllOffers(config, reviewed, store));
+  const decided = applyPolicy(clustered, offers, await loadPolicy(config.policyPath));
+  await writeExports(decided, offers, config.exportFormats, config.outputPath);
+  return 0;
+}
+
+async function runExport(config: CurationConfig, filters: OfferFilters): Promise<number> {
+  const { results, offers, missing } = await collectStoredResults(config, filters);
+  if (missing.length) {
+    const ids = missing.map((offer) => String(offer.activity_id ?? '?')).join(', ');
+    console.warn(`No cached grade for ${missing.length} offers (${ids}); run \`grade\` first.`);
+  }
+  const store = await openReviewStore(config.reviewsPath);
+  const reviewed = applyReviews(results, store);
+  const clustered = applyClusters(reviewed, await clusterAllOffers(config, reviewed, store));
+  const decided = applyPolicy(clustered, offers, await loadPolicy(config.policyPath));
+  await writeExports(decided, offers, config.exportFormats, config.outputPath);
+  return 0;
+}
+
+async function runReview(config: CurationConfig, activityId: string | undefined, flags: ParsedFlags): Promise<number> {
+  if (!activityId) {
+    console.error('review requires an activity ID.');
+    return 2;
+  }
+  const store = await openReviewStore(config.reviewsPath);
+  const { results } = await collectStoredResults(config, { only: new Set([activityId]) });
+  const result = results[0] ?? null;
+
+  if (flags.field != null) {
+    const field = flags.field as ReviewField;
+    if (!REVIEW_FIELDS.includes(field)) {
+      console.error(`Unknown review field "${flags.field}". Expected one of ${REVIEW_FIELDS.join(', ')}.`);
+      return 2;
+    }
+    if (Boolean(flags.accept) === (flags.set != null)) {
+      console.error('Pass exactly one of --accept or --set <value> with --field.');
+      return 2;
+    }
+    if (flags.accept && !result) {
+      console.error(`No cached grade for ${activityId}; run \`grade\` before accepting model values.`);
+      return 1;
+    }
+    let value: JsonValue;
+    try {
+      value = flags.accept && result ? modelValue(result, field) : parseReviewValue(field, flags.set ?? '');
+    } catch (error: any) {
+      console.error(error?.message || error);
+      return 2;
+    }
+    const decision = await store.record({
+      activity_id: activityId,
+      field,
+      action: flags.accept ? 'accept' : 'override',
+      value,
+      note: flags.note ?? '',
+      reviewer: flags.reviewer || process.env.OFFER_GRADING_REVIEWER || os.userInfo().username,
+    });
+    console.log(`Recorded ${decision.action} of ${field} for ${activityId} by ${decision.reviewer}.\n`);
+  }
+
+  const latest = store.latest(activityId);
+  const merged = result ? applyReviews([result], store)[0] : null;
+  console.log(`Offer ${activityId}: ${merged?.review?.state ?? (latest.size ? 'not graded' : 'unreviewed')}`);
+  for (const field of REVIEW_FIELDS) {
+    const model = result ? JSON.stringify(modelValue(result, field)) : 'n/a';
+    const decision = latest.get(field);
+    const note = decision?.note ? ` (${decision.note})` : '';
+    const described = decision
+      ? `${decision.action} ${JSON.stringify(decision.value)} by ${decision.reviewer}${note}`
+      : 'no decision';
+    console.log(`  ${field.padEnd(17)} model=${model}  review=${described}`);
+  }
+
+  const history = store.history(activityId);
+  if (history.length) {
+    console.log('\nHistory:');
+    for (const decision of history) {
+      const note = decision.note ? ` - ${decision.note}` : '';
+      console.log(
+        `  ${decision.decided_at} ${decision.reviewer} ${decision.action} ${decision.field} ` +
+          `${JSON.stringify(decision.value)}${note}`
+      );
+    }
+  }
+  return 0;
+}
+
+async function runRewrite(config: CurationConfig, flags: ParsedFlags): Promise<number> {
+  const suggestions = await runRewrites(config, buildFilters(flags));
+  for (const suggestion of suggestions) {
+    console.log(`\n${formatSuggestion(suggestion)}`);
+  }
+  const rejected = suggestions.filter((suggestion) => !suggestion.rewrite);
+  console.log(`\n${suggestions.length - rejected.length} rewrites suggested, ${rejected.length} rejected.`);
+
+  if (flags.report) {
+    const reportPath = path.resolve(flags.report);
+    await fs.promises.writeFile(reportPath, `${JSON.stringify(suggestions, null, 2)}\n`, 'utf-8');
+    console.log(`Rewrite suggestions written to ${reportPath}`);
+  }
+  return rejected.length ? 1 : 0;
+}
+
+async function runChanges(config: CurationConfig, activityId: string | undefined): Promise<number> {
+  if (!activityId) {
+    console.error('changes requires an activity ID.');
+    return 2;
+  }
+  const offer = (await loadOffers(config.offersDir, config.locale)).find(
+    (item) => String(item.activity_id ?? '') === activityId
+  );
+  const history = (await openSnapshotStore(config.snapshotsPath)).history(offer ? offerKey(offer) : activityId);
+  if (!history.length && !offer) {
+    console.error(`No offer file or recorded snapshots for ${activityId}.`);
+    return 1;
+  }
+
+  const printChanges = (changes: OfferChange[]) => {
+    for (const change of changes) {
+      console.log(`  - ${describeChange(change)} (${config.regradePolicy[change.kind]})`);
+    }
+  };
+  history.forEach((record, index) => {
+    console.log(`${record.captured_at}  ${record.snapshot_hash}  ${record.source_path}`);
+    if (!index) {
+      console.log('  first recorded version');
+      return;
+    }
+    printChanges(diffSnapshots(history[index - 1].snapshot, record.snapshot));
+  });
+
+  if (!offer) {
+    console.log(`\n${activityId} is no longer in ${config.offersDir}.`);
+  } else if (!history.length) {
+    console.log(`No snapshots recorded for ${activityId} yet; \`grade\` records one for each offer it sees.`);
+  } else {
+    const pending = diffSnapshots(history[history.length - 1].snapshot, snapshotOffer(offer));
+    console.log(
+      pending.length ? `\nNot yet recorded (${offer.source_path}):` : '\nThe offer file matches the latest snapshot.'
+    );
+    printChanges(pending);
+  }
+  return 0;
+}
+
+async function runLocales(config: CurationConfig, flags: ParsedFlags): Promise<number> {
+  const { offers } = await ingestOffers(config.offersDir);
+  const report = buildCompletenessReport(offers, config.targetLocales);
+  console.log(formatCompletenessReport(report, config.targetLocales));
+
+  if (flags.report) {
+    const reportPath = path.resolve(flags.report);
+    await fs.promises.writeFile(reportPath, `${JSON.stringify(report, null, 2)}\n`, 'utf-8');
+    console.log(`Completeness report written to ${reportPath}`);
+  }
+  return report.every(isComplete) ? 0 : 1;
+}
+
+async function runDecide(config: CurationConfig, flags: ParsedFlags): Promise<number> {
+  let policy: ApprovalPolicy;
+  let against: ApprovalPolicy | null = null;
+  try {
+    policy = await loadPolicy(config.policyPath);
+    if (flags['against-policy'] != null) {
+      against = await loadPolicy(path.resolve(flags['against-policy']));
+    }
+  } catch (error: any) {
+    console.error(error?.message || error);
+    return 2;
+  }
+
+  // Statuses decide recorded itself are re-evaluated, so by default no status is excluded.
+  const filters = { excludeStatuses: new Set<string>(), ...buildFilters(flags) };
+  const { results, offers, missing } = await collectStoredResults(config, filters);
+  if (missing.length) {
+    const ids = missing.map((offer) => String(offer.activity_id ?? '?')).join(', ');
+    console.warn(`No cached grade for ${missing.length} offers (${ids}); run \`grade\` first.`);
+  }
+  const store = await openReviewStore(config.reviewsPath);
+  const merged = applyReviews(results, store);
+  const reviewed = applyClusters(merged, await clusterAllOffers(config, merged, store));
+  const writeReport = async (report: unknown, label: string) => {
+    if (flags.report) {
+      const reportPath = path.resolve(flags.report);
+      await fs.promises.writeFile(reportPath, `${JSON.stringify(report, null, 2)}\n`, 'utf-8');
+      console.log(`${label} written to ${reportPath}`);
+    }
+  };
+
+  if (against) {
+    const changes = reclassify(reviewed, offers, policy, against);
+    for (const change of changes) {
+      const before = describeOutcome(change.before);
+      console.log(`${change.activity_id.padEnd(8)} ${before} -> ${describeOutcome(change.after)}`);
+    }
+    console.log(
+      `\n${changes.length} of ${reviewed.length} offers would be decided differently under ${against.source} ` +
+        `than under ${policy.source}.`
+    );
+    await writeReport(changes, 'Reclassification report');
+    return 0;
+  }
+
+  const decided = applyPolicy(reviewed, offers, policy);
+  const dryRun = Boolean(flags['dry-run']);
+  let recorded = 0;
+  let cleared = 0;
+  let kept = 0;
+  for (const result of decided) {
+    const activityId = String(result.activity_id ?? '');
+    const outcome = result.decision!;
+    let note = '';
+    const status = DECISION_STATUSES[outcome.decision];
+    const current = store.latest(activityId).get('status');
+    const reason = `${policy.source}: ${outcome.rule ? `rule "${outcome.rule}"` : 'policy default'}`;
+    if (status && current && current.reviewer !== POLICY_REVIEWER) {
+      kept += 1;
+      note = ` (status ${JSON.stringify(current.value)} set by ${current.reviewer} kept)`;
+    } else if (status && current?.value !== status) {
+      if (!dryRun) {
+        await store.record({
+          activity_id: activityId,
+          field: 'status',
+          action: 'override',
+          value: status,
+          note: reason,
+          reviewer: POLICY_REVIEWER,
+        });
+      }
+      recorded += 1;
+      note = ` (status ${status} ${dryRun ? 'would be ' : ''}recorded)`;
+    } else if (!status && current?.reviewer === POLICY_REVIEWER) {
+      // The policy no longer approves or rejects the offer, so the status it recorded earlier is withdrawn.
+      if (!dryRun) {
+        await store.record({
+          activity_id: activityId,
+          field: 'status',
+          action: 'clear',
+          value: null,
+          note: reason,
+          reviewer: POLICY_REVIEWER,
+        });
+      }
+      cleared += 1;
+      note = ` (status ${JSON.stringify(current.value)} ${dryRun ? 'would be ' : ''}cleared)`;
+    }
+    console.log(`${activityId.padEnd(8)} ${describeOutcome(outcome)}${note}`);
+  }
+
+  const counts = POLICY_DECISIONS.map(
+    (decision) => `${decided.filter((result) => result.decision?.decision === decision).length} ${decision}`
+  );
+  const changed = `${recorded} statuses ${dryRun ? 'would be ' : ''}recorded, ${cleared} cleared`;
+  console.log(
+    `\n${decided.length} offers under ${policy.source}: ${counts.join(', ')} ` +
+      `(${dryRun ? `dry run, nothing recorded: ${changed}` : changed}; ${kept} reviewer statuses kept).`
+  );
+  await writeReport(
+    decided.map((result) => ({ activity_id: String(result.activity_id ?? ''), ...result.decision })),
+    'Decision report'
+  );
+  return 0;
+}
+
+async function runDuplicates(config: CurationConfig, flags: ParsedFlags): Promise<number> {
+  // Offers without a stored grade are still compared; they just rank below graded ones for best in cluster.
+  const { results, offers } = await collectStoredResults(config, buildFilters(flags));
+  const reviewed = applyReviews(results, await openReviewStore(config.reviewsPath));
+  const clusters = findClusters(offers, reviewed, config);
+  clusters.forEach((cluster) => console.log(`${describeCluster(cluster)}\n`));
+
+  const clustered = clusters.reduce((sum, cluster) => sum + cluster.members.length, 0);
+  const duplicates = clusters.filter((cluster) => cluster.kind === 'duplicate').length;
+  console.log(
+    `${clusters.length} clusters (${duplicates} duplicate, ${clusters.length - duplicates} competing) ` +
+      `covering ${clustered} of ${offers.length} offers; ${clustered - clusters.length} could be left unlisted.`
+  );
+  if (flags.report) {
+    const reportPath = path.resolve(flags.report);
+    await fs.promises.writeFile(reportPath, `${JSON.stringify(clusters, null, 2)}\n`, 'utf-8');
+    console.log(`Cluster report written to ${reportPath}`);
+  }
+  return 0;
+}
+
+async function runServe(config: CurationConfig, flags: ParsedFlags): Promise<number> {
+  const port = Number.parseInt(flags.port ?? '4173', 10);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    console.error(`--port must be a port number, got "${flags.port}".`);
+    return 2;
+  }
+  // The server keeps the process alive until it is interrupted.
+  await startDashboard(config, { host: flags.host ?? '127.0.0.1', port });
+  return 0;
+}
+
+async function runIntake(config: CurationConfig, flags: ParsedFlags): Promise<number> {
+  const source = await createOfferQueue(config);
+  if (flags.once) {
+    const queue = await openGradingQueue(config.gradingQueuePath);
+    const { received, finished } = await runIntakeCycle(config, queue, source);
+    const count = (status: string) => received.filter((outcome) => outcome.status === status).length;
+    console.log(
+      `\nIntake: ${received.length} messages (${count('queued')} queued, ${count('duplicate')} duplicates, ` +
+        `${count('rejected')} rejected); ${finished.graded} graded, ${finished.failed} failed, ` +
+        `${finished.skipped} skipped.`
+    );
+    return count('rejected') || finished.failed ? 1 : 0;
+  }
+  const port = Number.parseInt(flags.port ?? '4174', 10);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    console.error(`--port must be a port number, got "${flags.port}".`);
+    return 2;
+  }
+  // Like serve, the server keeps the process alive; the queue log makes stopping it at any point safe.
+  await startIntakeService(
+    config,
+    { host: flags.host ?? '127.0.0.1', port, token: process.env.OFFER_INTAKE_TOKEN || null },
+    source
+  );
+  return 0;
+}
+
+async function runCompare(config: CurationConfig, flags: ParsedFlags): Promise<number> {
+  if (flags['against-prompt'] == null && flags['against-model'] == null) {
+    console.error('compare needs --against-prompt <version> and/or --against-model <name>.');
+    return 2;
+  }
+  const variantB: CurationConfig = {
+    ...config,
+    promptVersion: flags['against-prompt'] ?? config.promptVersion,
+    model: flags['against-model'] ?? config.model,
+  };
+  try {
+    loadPromptTemplate(config.promptsDir, config.promptVersion);
+    loadPromptTemplate(variantB.promptsDir, variantB.promptVersion);
+  } catch (error: any) {
+    console.error(error?.message || error);
+    return 2;
+  }
+
+  const label = (variant: CurationConfig) => `${variant.promptVersion}/${variant.model}`;
+  const report = await compareVariants(
+    { label: label(config), config },
+    { label: label(variantB), config: variantB },
+    { ...buildFilters(flags), force: Boolean(flags.force) }
+  );
+  console.log(`\n${formatComparison(report)}`);
+
+  if (flags.report) {
+    const reportPath = path.resolve(flags.report);
+    await fs.promises.writeFile(reportPath, `${JSON.stringify(report, null, 2)}\n`, 'utf-8');
+    console.log(`Comparison report written to ${reportPath}`);
+  }
+  return 0;
+}
+
+async function runEval(config: CurationConfig, flags: ParsedFlags): Promise<number> {
+  let gold: GoldEntry[];
+  try {
+    gold = await loadGoldSet(config.goldSetPath);
+  } catch (error: any) {
+    console.error(error?.message || error);
+    return 2;
+  }
+  if (!gold.length) {
+    console.error(`Gold set ${config.goldSetPath} has no entries.`);
+    return 2;
+  }
+  const report = await runEvaluation(config, gold);
+  console.log(`\n${formatEvalReport(report)}`);
+
+  if (flags.report) {
+    const reportPath = path.resolve(flags.report);
+    await fs.promises.writeFile(reportPath, `${JSON.stringify(report, null, 2)}\n`, 'utf-8');
+    console.log(`Evaluation report written to ${reportPath}`);
+  }
+  return report.failures.length ? 1 : 0;
+}
+
+// --- Section: Entry point ---
+async function main(argv: string[]): Promise<number> {
+  let parsed: { values: ParsedFlags; positionals: string[] };
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  } catch (error: any) {
+    console.error(`${error?.message || error}\n\n${USAGE}`);
+    return 2;
+  }
+  const { values: flags, positionals } = parsed;
+  const [command, ...rest] = positionals;
+
+  if (flags.help || !command) {
+    console.log(USAGE);
+    return flags.help ? 0 : 2;
+  }
+
+  dotenv.config();
+  let config: CurationConfig;
+  try {
+    config = await buildConfig(flags);
+  } catch (error: any) {
+    console.error(`${error?.message || error}\n\n${USAGE}`);
+    return 2;
+  }
+  configureLogging({ level: config.logLevel, format: config.logFormat });
+
+  // Commands that grade log under their grading run's ID; everything else logs under this one.
+  return withLogContext({ run_id: createRunId(new Date()) }, () => runCommand(command, rest, config, flags));
+}
+
+async function runCommand(
+  command: string,
+  rest: string[],
+  config: CurationConfig,
+  flags: ParsedFlags
+): Promise<number> {
+  switch (command) {
+    case 'load':
+      return runLoad(config, flags);
+    case 'prompt':
+      return runPrompt(config, rest[0]);
+    case 'lint':
+      return runLint(config, buildFilters(flags));
+    case 'grade':
+      return runGrade(config, flags);
+    case 'export':
+      // Offers decide approved as CURATED are the ones the storefront needs, so no status is excluded by default.
+      return runExport(config, { excludeStatuses: new Set<string>(), ...buildFilters(flags) });
+    case 'review':
+      return runReview(config, rest[0], flags);
+    case 'rewrite':
+      return runRewrite(config, flags);
+    case 'changes':
+      return runChanges(config, rest[0]);
+    case 'serve':
+      return runServe(config, flags);
+    case 'compare':
+      return runCompare(config, flags);
+    case 'eval':
+      return runEval(config, flags);
+    case 'locales':
+      return runLocales(config, flags);
+    case 'decide':
+      return runDecide(config, flags);
+    case 'duplicates':
+      return runDuplicates(config, flags);
+    case 'intake':
+      return runIntake(config, flags);
+    default:
+      console.error(`Unknown command "${command}".\n\n${USAGE}`);
+      return 2;
+  }
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error('Fatal error running grading script:', error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,277 @@
+/**
+ * copy_rewrite.ts
+ *
+ * Optional house-style rewrite of an offer's title, subtitle and description. The model gets the sanitised
+ * copy plus the rewrite prompts of the configured prompt version and returns a JSON object, which is checked
+ * against the house-style rules that can be checked mechanically (lengths, symbols, single-line title and
+ * subtitle, `##` headings). Each suggestion carries a line diff against the original copy; nothing is
+ * written back to the offers.
+ */
+
+import type { CurationConfig } from './curation_config.js';
+import type { GradingProvider, GradingRequest, TokenUsage } from './grading_providers.js';
+import { parseStrictJson } from './grading_schema.js';
+import {
+  createGradingProvider,
+  loadOffers,
+  OfferFilters,
+  selectOffers,
+  StructuredOffer,
+  summarisePackages,
+} from './offer_curation.js';
+import { loadRewriteTemplate, renderTemplate } from './prompt_templates.js';
+import { createAdaptiveLimiter, createRetryingProvider } from './retry_policy.js';
+import { applyReviewStatuses, openReviewStore } from './review_store.js';
+import { log } from './run_log.js';
+
+export interface OfferCopy {
+  title: string;
+  subtitle: string;
+  description_markdown: string;
+}
+
+export interface DiffLine {
+  op: 'same' | 'removed' | 'added';
+  text: string;
+}
+
+export type CopyDiff = Record<keyof OfferCopy, DiffLine[]>;
+
+export interface RewriteSuggestion {
+  activity_id: string;
+  prompt_version: string;
+  generated_at: string;
+  original: OfferCopy;
+  // Null when the call failed or the output broke the house-style rules; see `errors`.
+  rewrite: OfferCopy | null;
+  notes: string;
+  errors: string[];
+  response_id: string | null;
+  usage: TokenUsage | null;
+  diff: CopyDiff | null;
+}
+
+const MAX_TITLE_LENGTH = 70;
+const MAX_SUBTITLE_LENGTH = 140;
+const COPY_FIELDS: Array<keyof OfferCopy> = ['title', 'subtitle', 'description_markdown'];
+
+// --- Section: Line diff ---
+/**
+ * Longest-common-subsequence diff of two texts by line. Offer copy is at most a few hundred lines, so the
+ * quadratic table is fine.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+  // common[i][j] is the length of the longest common subsequence of a[i..] and b[j..].
+  const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ op: 'same', text: a[i] });
+      i += 1;
+      j += 1;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ op: 'removed', text: a[i] });
+      i += 1;
+    } else {
+      lines.push({ op: 'added', text: b[j] });
+      j += 1;
+    }
+  }
+  lines.push(...a.slice(i).map((text) => ({ op: 'removed' as const, text })));
+  lines.push(...b.slice(j).map((text) => ({ op: 'added' as const, text })));
+  return lines;
+}
+
+export function formatDiff(lines: DiffLine[]): string {
+  const prefix = { same: '  ', removed: '- ', added: '+ ' };
+  return lines.map((line) => `${prefix[line.op]}${line.text}`.trimEnd()).join('\n');
+}
+
+// --- Section: Request and validation ---
+export function originalCopy(offer: StructuredOffer): OfferCopy {
+  return {
+    title: (offer.title || '').trim(),
+    subtitle: (offer.subtitle || '').trim(),
+    description_markdown: offer.description_markdown || '',
+  };
+}
+
+export function buildRewriteRequest(offer: StructuredOffer, config: CurationConfig): GradingRequest {
+  const template = loadRewriteTemplate(config.promptsDir, config.promptVersion);
+  const activityId = String(offer.activity_id ?? '');
+  return {
+    activity_id: activityId,
+    instructions: template.system,
+    prompt: renderTemplate(
+      template.offer,
+      {
+        activity_id: activityId || 'N/A',
+        title: offer.title || 'N/A',
+        subtitle: offer.subtitle || 'N/A',
+        what_we_love: offer.what_we_love || 'N/A',
+        city: offer.city || 'N/A',
+        country: offer.country || 'N/A',
+        category: offer.category || 'N/A',
+        description: offer.description_markdown || 'No description supplied.',
+        packages: summarisePackages(offer.packages),
+      },
+      `${template.version}/rewrite_offer.md`
+    ),
+    images: [],
+    metadata: {
+      activity_id: activityId,
+      activity_title: offer.title || '',
+      purpose: 'copy_rewrite',
+    },
+  };
+}
+
+function checkLine(value: string, field: string, maxLength: number, errors: string[]): void {
+  if (value.length > maxLength) {
+    errors.push(`"${field}" is ${value.length} characters; the house style allows ${maxLength}.`);
+  }
+  if (/\n/.test(value)) {
+    errors.push(`"${field}" must be a single line.`);
+  }
+  if (/[*_#`]/.test(value)) {
+    errors.push(`"${field}" must be plain text without markdown.`);
+  }
+  if (/[®™©]/.test(value)) {
+    errors.push(`"${field}" must not contain ®, ™ or © symbols.`);
+  }
+}
+
+export function validateRewriteOutput(text: string): { copy: OfferCopy | null; notes: string; errors: string[] } {
+  const { value, error } = parseStrictJson(text);
+  if (error) {
+    return { copy: null, notes: '', errors: [error] };
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { copy: null, notes: '', errors: ['Response must be a single JSON object.'] };
+  }
+
+  const parsed = value as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const field of COPY_FIELDS) {
+    if (typeof parsed[field] !== 'string' || !(parsed[field] as string).trim()) {
+      errors.push(`"${field}" must be a non-empty string.`);
+    }
+  }
+  if (errors.length) {
+    return { copy: null, notes: '', errors };
+  }
+
+  const copy: OfferCopy = {
+    title: (parsed.title as string).trim(),
+    subtitle: (parsed.subtitle as string).trim(),
+    description_markdown: (parsed.description_markdown as string).trim(),
+  };
+  checkLine(copy.title, 'title', MAX_TITLE_LENGTH, errors);
+  if (copy.title.endsWith('.')) {
+    errors.push('"title" must not end with a full stop.');
+  }
+  checkLine(copy.subtitle, 'subtitle', MAX_SUBTITLE_LENGTH, errors);
+  if (/^(#|#{3,})\s/m.test(copy.description_markdown)) {
+    errors.push('"description_markdown" may only use "##" headings.');
+  }
+  const notes = typeof parsed.notes === 'string' ? parsed.notes.trim() : '';
+  return errors.length ? { copy: null, notes, errors } : { copy, notes, errors };
+}
+
+// --- Section: Generating suggestions ---
+export async function rewriteOffer(
+  offer: StructuredOffer,
+  provider: GradingProvider,
+  config: CurationConfig
+): Promise<RewriteSuggestion> {
+  const original = originalCopy(offer);
+  const suggestion: RewriteSuggestion = {
+    activity_id: String(offer.activity_id ?? ''),
+    prompt_version: config.promptVersion,
+    generated_at: new Date().toISOString(),
+    original,
+    rewrite: null,
+    notes: '',
+    errors: [],
+    response_id: null,
+    usage: null,
+    diff: null,
+  };
+
+  try {
+    const response = await provider.grade(buildRewriteRequest(offer, config));
+    const { copy, notes, errors } = validateRewriteOutput(response.text);
+    suggestion.response_id = response.response_id;
+    suggestion.usage = response.usage ?? null;
+    suggestion.notes = notes;
+    suggestion.errors = errors;
+    if (copy) {
+      suggestion.rewrite = copy;
+      suggestion.diff = {
+        title: diffLines(original.title, copy.title),
+        subtitle: diffLines(original.subtitle, copy.subtitle),
+        description_markdown: diffLines(original.description_markdown, copy.description_markdown),
+      };
+    }
+  } catch (error: any) {
+    suggestion.errors = [`Rewrite call failed: ${error?.message || error}`];
+  }
+  return suggestion;
+}
+
+/**
+ * Rewrites the selected offers one at a time. The fixture and record providers use `rewriteFixturesDir`, so
+ * rewrite fixtures never overwrite grading fixtures.
+ */
+export async function runRewrites(config: CurationConfig, filters: OfferFilters = {}): Promise<RewriteSuggestion[]> {
+  const offers = applyReviewStatuses(
+    await loadOffers(config.offersDir, config.locale),
+    await openReviewStore(config.reviewsPath)
+  );
+  const selected = selectOffers(offers, filters);
+  const provider = createRetryingProvider(
+    createGradingProvider({ ...config, fixturesDir: config.rewriteFixturesDir }),
+    createAdaptiveLimiter({ max: 1 }),
+    { maxAttempts: config.maxRetries, baseDelayMs: 1000, maxDelayMs: 60000 }
+  );
+  log.info('rewrite_started', `Rewriting copy for ${selected.length} offers with ${provider.name}.`, {
+    offers: selected.length,
+    provider: provider.name,
+  });
+
+  const suggestions: RewriteSuggestion[] = [];
+  for (const offer of selected) {
+    suggestions.push(await rewriteOffer(offer, provider, config));
+  }
+  return suggestions;
+}
+
+// --- Section: Console report ---
+export function formatSuggestion(suggestion: RewriteSuggestion): string {
+  const lines = [`== ${suggestion.activity_id} (prompt ${suggestion.prompt_version})`];
+  if (!suggestion.rewrite || !suggestion.diff) {
+    lines.push('Rewrite rejected:', ...suggestion.errors.map((error) => `  - ${error}`));
+    return lines.join('\n');
+  }
+  for (const field of COPY_FIELDS) {
+    const changed = suggestion.diff[field].some((line) => line.op !== 'same');
+    lines.push(`-- ${field}${changed ? '' : ' (unchanged)'}`);
+    if (changed) {
+      lines.push(formatDiff(suggestion.diff[field]));
+    }
+  }
+  if (suggestion.notes) {
+    lines.push(`Notes: ${suggestion.notes}`);
+  }
+  return lines.join('\n');
+}
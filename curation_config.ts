@@ -0,0 +1,474 @@
+/**
+ * curation_config.ts
+ *
+ * Settings for the grading pipeline. Defaults mirror the original notebook constants; a JSON config file
+ * overrides them, `OFFER_GRADING_*` environment variables override the file, and CLI flags win overall.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { LINT_RULE_IDS, LintSetting } from './offer_lint.js';
+import { CATEGORY_LEAVES } from './taxonomy.js';
+import { parseAspectRatio } from './image_analysis.js';
+import { EXPORT_FORMATS, ExportFormat } from './exporters.js';
+import type { ModelPrice } from './run_manifest.js';
+import { DEFAULT_PROMPT_VERSION } from './prompt_templates.js';
+import { DEFAULT_EVAL_THRESHOLDS, EvalThresholds } from './gold_eval.js';
+import { CHANGE_KINDS, ChangeKind, DEFAULT_REGRADE_POLICY, RegradeAction, RegradePolicy } from './offer_snapshots.js';
+import { DEFAULT_LOCALE, parseLocale } from './locales.js';
+import { LOG_FORMATS, LOG_LEVELS, LogFormat, LogLevel } from './run_log.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DEFAULT_CONFIG_FILE = 'offer_curation.config.json';
+
+export type ReasoningEffort = 'minimal' | 'low' | 'medium' | 'high';
+const REASONING_EFFORTS: ReasoningEffort[] = ['minimal', 'low', 'medium', 'high'];
+const LINT_SETTINGS: LintSetting[] = ['error', 'warning', 'info', 'off'];
+
+export interface CurationConfig {
+  offersDir: string;
+  // Path of the first export format; other formats are written next to it with their own extension.
+  outputPath: string;
+  exportFormats: ExportFormat[];
+  // `openai` calls the Responses API, `fixture` replays canned output offline, `record` does both.
+  provider: string;
+  fixturesDir: string;
+  // Fixtures for the copy rewrite step (copy_rewrite.ts), kept apart from the grading fixtures.
+  rewriteFixturesDir: string;
+  cachePath: string;
+  // Append-only history of each offer's Klook content (offer_snapshots.ts).
+  snapshotsPath: string;
+  // Change kind to `regrade` or `ignore`, overriding DEFAULT_REGRADE_POLICY.
+  regradePolicy: RegradePolicy;
+  // Append-only log of reviewer decisions (review_store.ts).
+  reviewsPath: string;
+  model: string;
+  reasoningEffort: ReasoningEffort;
+  maxImagesToReview: number;
+  maxOutputTokens: number;
+  maxGradingAttempts: number;
+  concurrency: number;
+  maxRetries: number;
+  // Per-rule severity overrides for offer_lint.ts, e.g. { "banner-image": "off" }.
+  lintRules: Record<string, LintSetting>;
+  minImageWidth: number;
+  minImageHeight: number;
+  // Klook leaf category ID to storefront leaves, overriding KLOOK_CATEGORY_MAP in taxonomy.ts.
+  categoryMap: Record<string, string[]>;
+  // Local image files for image_analysis.ts, named after the last segment of each image URL.
+  imageCacheDir: string;
+  heroAspectRatio: string;
+  maxHeroCropPercent: number;
+  phashDistance: number;
+  // Versioned prompt templates (prompt_templates.ts): prompts/<promptVersion>/{system,image_guidance,offer}.md.
+  promptsDir: string;
+  promptVersion: string;
+  // One JSON manifest per grading run (run_manifest.ts).
+  manifestDir: string;
+  // Model name to USD per million tokens, overriding DEFAULT_PRICE_TABLE in run_manifest.ts.
+  priceTable: Record<string, ModelPrice>;
+  // Stop queuing offers once projected spend in USD would exceed this; null means no limit.
+  budgetUsd: number | null;
+  // Gold-labelled offers for `eval` (gold_eval.ts) and the metric limits that make it fail.
+  goldSetPath: string;
+  evalThresholds: EvalThresholds;
+  // City bounding boxes for location_check.ts.
+  gazetteerPath: string;
+  // Storefront locale to grade in (locales.ts), and the locales the completeness report checks.
+  locale: string;
+  targetLocales: string[];
+  // Ensemble grading (ensemble.ts): passes per effort, the efforts to use (empty means reasoningEffort) and
+  // the confidence at or above which an undisputed offer is routed to auto-approval.
+  ensembleRuns: number;
+  ensembleEfforts: ReasoningEffort[];
+  autoApproveConfidence: number;
+  // Approval policy (approval_policy.ts) turning graded results into curation decisions.
+  policyPath: string;
+  // Intake service (intake_service.ts): the durable grading queue, the message queue it consumes (file or
+  // none), the file queue's inbox directory and how often queues are polled.
+  gradingQueuePath: string;
+  intakeQueue: string;
+  intakeDir: string;
+  intakePollSeconds: number;
+  // Structured logging (run_log.ts): the lowest level written and json or text lines, plus a directory for the
+  // exact requests and responses behind each grade (null writes none).
+  logLevel: LogLevel;
+  logFormat: LogFormat;
+  artifactsDir: string | null;
+  // Offer similarity (offer_similarity.ts), 0-1: pairs at or above competingThreshold are clustered, and
+  // offers linked at duplicateThreshold are duplicate listings.
+  duplicateThreshold: number;
+  competingThreshold: number;
+}
+
+export const DEFAULT_CONFIG: CurationConfig = {
+  offersDir: path.resolve(__dirname, 'offers'),
+  outputPath: path.resolve(__dirname, 'graded_offers_ts.csv'),
+  exportFormats: ['csv'],
+  provider: 'openai',
+  fixturesDir: path.resolve(__dirname, 'fixtures/responses'),
+  rewriteFixturesDir: path.resolve(__dirname, 'fixtures/rewrites'),
+  cachePath: path.resolve(__dirname, '.grading_cache.jsonl'),
+  snapshotsPath: path.resolve(__dirname, '.offer_snapshots.jsonl'),
+  regradePolicy: DEFAULT_REGRADE_POLICY,
+  reviewsPath: path.resolve(__dirname, 'reviews.jsonl'),
+  model: 'gpt-5',
+  reasoningEffort: 'medium',
+  maxImagesToReview: 8,
+  maxOutputTokens: 5000,
+  maxGradingAttempts: 3,
+  concurrency: 4,
+  maxRetries: 5,
+  lintRules: {},
+  minImageWidth: 1024,
+  minImageHeight: 640,
+  categoryMap: {},
+  imageCacheDir: path.resolve(__dirname, 'image_cache'),
+  heroAspectRatio: '16:9',
+  maxHeroCropPercent: 35,
+  phashDistance: 10,
+  promptsDir: path.resolve(__dirname, 'prompts'),
+  promptVersion: DEFAULT_PROMPT_VERSION,
+  manifestDir: path.resolve(__dirname, 'runs'),
+  priceTable: {},
+  budgetUsd: null,
+  goldSetPath: path.resolve(__dirname, 'gold/gold_set.json'),
+  evalThresholds: DEFAULT_EVAL_THRESHOLDS,
+  gazetteerPath: path.resolve(__dirname, 'gazetteer/cities.json'),
+  locale: DEFAULT_LOCALE,
+  targetLocales: [DEFAULT_LOCALE],
+  ensembleRuns: 1,
+  ensembleEfforts: [],
+  autoApproveConfidence: 0.8,
+  policyPath: path.resolve(__dirname, 'policies/approval.json'),
+  gradingQueuePath: path.resolve(__dirname, '.grading_queue.jsonl'),
+  intakeQueue: 'file',
+  intakeDir: path.resolve(__dirname, 'intake'),
+  intakePollSeconds: 10,
+  logLevel: 'info',
+  logFormat: 'json',
+  artifactsDir: null,
+  duplicateThreshold: 0.75,
+  competingThreshold: 0.4,
+};
+
+const PATH_KEYS: Array<keyof CurationConfig> = [
+  'offersDir',
+  'outputPath',
+  'fixturesDir',
+  'rewriteFixturesDir',
+  'cachePath',
+  'snapshotsPath',
+  'reviewsPath',
+  'imageCacheDir',
+  'manifestDir',
+  'promptsDir',
+  'goldSetPath',
+  'gazetteerPath',
+  'policyPath',
+  'gradingQueuePath',
+  'intakeDir',
+];
+const NUMBER_KEYS: Array<keyof CurationConfig> = [
+  'maxImagesToReview',
+  'maxOutputTokens',
+  'maxGradingAttempts',
+  'concurrency',
+  'maxRetries',
+  'minImageWidth',
+  'minImageHeight',
+  'maxHeroCropPercent',
+  'phashDistance',
+  'ensembleRuns',
+  'intakePollSeconds',
+];
+
+const ENV_KEYS: Partial<Record<keyof CurationConfig, string>> = {
+  provider: 'OFFER_GRADING_PROVIDER',
+  fixturesDir: 'OFFER_GRADING_FIXTURES_DIR',
+  cachePath: 'OFFER_GRADING_CACHE_PATH',
+  snapshotsPath: 'OFFER_GRADING_SNAPSHOTS_PATH',
+  reviewsPath: 'OFFER_GRADING_REVIEWS_PATH',
+  policyPath: 'OFFER_GRADING_POLICY_PATH',
+  gradingQueuePath: 'OFFER_GRADING_QUEUE_PATH',
+  intakeDir: 'OFFER_GRADING_INTAKE_DIR',
+  logLevel: 'OFFER_GRADING_LOG_LEVEL',
+  logFormat: 'OFFER_GRADING_LOG_FORMAT',
+  artifactsDir: 'OFFER_GRADING_ARTIFACTS_DIR',
+  exportFormats: 'OFFER_GRADING_EXPORT_FORMATS',
+  budgetUsd: 'OFFER_GRADING_BUDGET_USD',
+  locale: 'OFFER_GRADING_LOCALE',
+  targetLocales: 'OFFER_GRADING_TARGET_LOCALES',
+  ensembleRuns: 'OFFER_GRADING_ENSEMBLE_RUNS',
+  ensembleEfforts: 'OFFER_GRADING_ENSEMBLE_EFFORTS',
+  promptVersion: 'OFFER_GRADING_PROMPT_VERSION',
+  concurrency: 'OFFER_GRADING_CONCURRENCY',
+  maxRetries: 'OFFER_GRADING_MAX_RETRIES',
+};
+
+// --- Section: Normalisation shared by every config source ---
+function normaliseLintRules(value: unknown, source: string): Record<string, LintSetting> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Setting "lintRules" in ${source} must be an object of rule IDs to severities.`);
+  }
+  const rules: Record<string, LintSetting> = {};
+  for (const [rule, setting] of Object.entries(value)) {
+    if (!LINT_RULE_IDS.includes(rule)) {
+      throw new Error(`Unknown lint rule "${rule}" in ${source}. Known rules: ${LINT_RULE_IDS.join(', ')}.`);
+    }
+    if (!LINT_SETTINGS.includes(setting as LintSetting)) {
+      throw new Error(`Lint rule "${rule}" in ${source} must be one of ${LINT_SETTINGS.join(', ')}.`);
+    }
+    rules[rule] = setting as LintSetting;
+  }
+  return rules;
+}
+
+function normaliseCategoryMap(value: unknown, source: string): Record<string, string[]> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Setting "categoryMap" in ${source} must be an object of Klook leaf category IDs to leaf lists.`);
+  }
+  const map: Record<string, string[]> = {};
+  for (const [leafId, leaves] of Object.entries(value)) {
+    if (!/^\d+$/.test(leafId)) {
+      throw new Error(`categoryMap key "${leafId}" in ${source} must be a numeric Klook leaf category ID.`);
+    }
+    if (!Array.isArray(leaves) || leaves.some((leaf) => !CATEGORY_LEAVES.includes(leaf))) {
+      throw new Error(
+        `categoryMap entry "${leafId}" in ${source} must be an array of leaf categories from taxonomy.ts.`
+      );
+    }
+    map[leafId] = leaves as string[];
+  }
+  return map;
+}
+
+function normalisePriceTable(value: unknown, source: string): Record<string, ModelPrice> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Setting "priceTable" in ${source} must be an object of model names to prices.`);
+  }
+  const table: Record<string, ModelPrice> = {};
+  for (const [model, price] of Object.entries(value)) {
+    const { input, cached_input: cachedInput, output } = (price ?? {}) as Record<string, unknown>;
+    const valid = (amount: unknown) => typeof amount === 'number' && Number.isFinite(amount) && amount >= 0;
+    if (!valid(input) || !valid(output) || (cachedInput !== undefined && !valid(cachedInput))) {
+      throw new Error(
+        `priceTable entry "${model}" in ${source} needs non-negative "input" and "output" USD per million tokens ` +
+          '(and optionally "cached_input").'
+      );
+    }
+    table[model] = {
+      input: input as number,
+      cached_input: (cachedInput ?? input) as number,
+      output: output as number,
+    };
+  }
+  return table;
+}
+
+// Partial objects are merged over DEFAULT_EVAL_THRESHOLDS.
+function normaliseEvalThresholds(value: unknown, source: string): EvalThresholds {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Setting "evalThresholds" in ${source} must be an object of threshold names to numbers.`);
+  }
+  const thresholds: EvalThresholds = { ...DEFAULT_EVAL_THRESHOLDS };
+  for (const [name, limit] of Object.entries(value)) {
+    if (!(name in DEFAULT_EVAL_THRESHOLDS)) {
+      const known = Object.keys(DEFAULT_EVAL_THRESHOLDS).join(', ');
+      throw new Error(`Unknown eval threshold "${name}" in ${source}. Known thresholds: ${known}.`);
+    }
+    if (typeof limit !== 'number' || !Number.isFinite(limit) || limit < 0) {
+      throw new Error(`Eval threshold "${name}" in ${source} must be a non-negative number.`);
+    }
+    thresholds[name as keyof EvalThresholds] = limit;
+  }
+  return thresholds;
+}
+
+// Partial objects are merged over DEFAULT_REGRADE_POLICY.
+function normaliseRegradePolicy(value: unknown, source: string): RegradePolicy {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Setting "regradePolicy" in ${source} must be an object of change kinds to "regrade" or "ignore".`);
+  }
+  const policy: RegradePolicy = { ...DEFAULT_REGRADE_POLICY };
+  for (const [kind, action] of Object.entries(value)) {
+    if (!CHANGE_KINDS.includes(kind as ChangeKind)) {
+      throw new Error(`Unknown change kind "${kind}" in ${source}. Known kinds: ${CHANGE_KINDS.join(', ')}.`);
+    }
+    if (action !== 'regrade' && action !== 'ignore') {
+      throw new Error(`Re-grade policy for "${kind}" in ${source} must be "regrade" or "ignore".`);
+    }
+    policy[kind as ChangeKind] = action as RegradeAction;
+  }
+  return policy;
+}
+
+function normaliseLocale(value: unknown, key: string, source: string): string {
+  const locale = parseLocale(String(value));
+  if (!locale) {
+    throw new Error(
+      `Setting "${key}" in ${source} must be a locale such as en_AU or zh_TW, got ${JSON.stringify(value)}.`
+    );
+  }
+  return locale;
+}
+
+// Accepts a JSON array or a comma-separated string (env and flags).
+function normaliseTargetLocales(value: unknown, source: string): string[] {
+  const items = Array.isArray(value) ? value.map(String) : String(value).split(',');
+  const locales = items.filter((item) => item.trim()).map((item) => normaliseLocale(item, 'targetLocales', source));
+  if (!locales.length) {
+    throw new Error(`Setting "targetLocales" in ${source} must list at least one locale.`);
+  }
+  return [...new Set(locales)];
+}
+
+// Accepts a JSON array or a comma-separated string (env and flags); an empty list turns per-pass efforts off.
+function normaliseEnsembleEfforts(value: unknown, source: string): ReasoningEffort[] {
+  const items = Array.isArray(value) ? value.map(String) : String(value).split(',');
+  const efforts = items.map((item) => item.trim().toLowerCase()).filter(Boolean);
+  if (efforts.some((effort) => !REASONING_EFFORTS.includes(effort as ReasoningEffort))) {
+    throw new Error(`Setting "ensembleEfforts" in ${source} must list efforts from ${REASONING_EFFORTS.join(', ')}.`);
+  }
+  return efforts as ReasoningEffort[];
+}
+
+// Accepts a JSON array or a comma-separated string (env and flags).
+function normaliseExportFormats(value: unknown, source: string): ExportFormat[] {
+  const items = Array.isArray(value) ? value.map(String) : String(value).split(',');
+  const formats = items.map((item) => item.trim().toLowerCase()).filter(Boolean);
+  const unknown = formats.filter((format) => !EXPORT_FORMATS.includes(format as ExportFormat));
+  if (!formats.length || unknown.length) {
+    throw new Error(`Setting "exportFormats" in ${source} must list formats from ${EXPORT_FORMATS.join(', ')}.`);
+  }
+  return [...new Set(formats)] as ExportFormat[];
+}
+
+/**
+ * Coerces loosely typed values (JSON, env strings, flag strings) into config fields. Relative paths are
+ * resolved against `baseDir`, so a config file can refer to files next to itself.
+ */
+export function normaliseConfigValues(
+  values: Record<string, unknown>,
+  baseDir: string,
+  source: string
+): Partial<CurationConfig> {
+  const result: Partial<Record<keyof CurationConfig, unknown>> = {};
+
+  for (const [rawKey, value] of Object.entries(values)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (!(rawKey in DEFAULT_CONFIG)) {
+      throw new Error(`Unknown setting "${rawKey}" in ${source}.`);
+    }
+    const key = rawKey as keyof CurationConfig;
+
+    if (NUMBER_KEYS.includes(key)) {
+      const numeric = typeof value === 'number' ? value : Number.parseInt(String(value), 10);
+      if (!Number.isInteger(numeric) || numeric < 1) {
+        throw new Error(`Setting "${key}" in ${source} must be a positive integer, got ${JSON.stringify(value)}.`);
+      }
+      result[key] = numeric;
+    } else if (PATH_KEYS.includes(key)) {
+      result[key] = path.resolve(baseDir, String(value));
+    } else if (key === 'reasoningEffort') {
+      if (!REASONING_EFFORTS.includes(value as ReasoningEffort)) {
+        throw new Error(`Setting "reasoningEffort" in ${source} must be one of ${REASONING_EFFORTS.join(', ')}.`);
+      }
+      result[key] = value;
+    } else if (key === 'lintRules') {
+      result[key] = normaliseLintRules(value, source);
+    } else if (key === 'heroAspectRatio') {
+      parseAspectRatio(String(value));
+      result[key] = String(value);
+    } else if (key === 'categoryMap') {
+      result[key] = normaliseCategoryMap(value, source);
+    } else if (key === 'exportFormats') {
+      result[key] = normaliseExportFormats(value, source);
+    } else if (key === 'regradePolicy') {
+      result[key] = normaliseRegradePolicy(value, source);
+    } else if (key === 'evalThresholds') {
+      result[key] = normaliseEvalThresholds(value, source);
+    } else if (key === 'priceTable') {
+      result[key] = normalisePriceTable(value, source);
+    } else if (key === 'locale') {
+      result[key] = normaliseLocale(value, key, source);
+    } else if (key === 'targetLocales') {
+      result[key] = normaliseTargetLocales(value, source);
+    } else if (key === 'ensembleEfforts') {
+      result[key] = normaliseEnsembleEfforts(value, source);
+    } else if (key === 'autoApproveConfidence' || key === 'duplicateThreshold' || key === 'competingThreshold') {
+      const fraction = Number(value);
+      if (!Number.isFinite(fraction) || fraction < 0 || fraction > 1) {
+        throw new Error(`Setting "${key}" in ${source} must be between 0 and 1, got ${JSON.stringify(value)}.`);
+      }
+      result[key] = fraction;
+    } else if (key === 'logLevel' || key === 'logFormat') {
+      const allowed: string[] = key === 'logLevel' ? LOG_LEVELS : LOG_FORMATS;
+      if (!allowed.includes(String(value))) {
+        throw new Error(`Setting "${key}" in ${source} must be one of ${allowed.join(', ')}.`);
+      }
+      result[key] = String(value);
+    } else if (key === 'artifactsDir') {
+      result[key] = value === null || value === '' ? null : path.resolve(baseDir, String(value));
+    } else if (key === 'budgetUsd') {
+      const amount = value === null ? null : Number(value);
+      if (amount !== null && (!Number.isFinite(amount) || amount <= 0)) {
+        throw new Error(
+          `Setting "budgetUsd" in ${source} must be a positive amount in USD, got ${JSON.stringify(value)}.`
+        );
+      }
+      result[key] = amount;
+    } else {
+      result[key] = String(value);
+    }
+  }
+
+  return result as Partial<CurationConfig>;
+}
+
+// --- Section: Config sources ---
+/**
+ * Reads a JSON config file. A missing file is only an error when it was named explicitly.
+ */
+export async function loadConfigFile(filePath: string, required: boolean): Promise<Partial<CurationConfig>> {
+  let raw: string;
+  try {
+    raw = await fs.promises.readFile(filePath, 'utf-8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT' && !required) {
+      return {};
+    }
+    throw new Error(`Failed to read config file: ${filePath}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error: any) {
+    throw new Error(`Config file ${filePath} is not valid JSON (${error?.message || error}).`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Config file ${filePath} must contain a JSON object.`);
+  }
+  return normaliseConfigValues(parsed as Record<string, unknown>, path.dirname(filePath), filePath);
+}
+
+export function configFromEnv(env: NodeJS.ProcessEnv): Partial<CurationConfig> {
+  const values: Record<string, unknown> = {};
+  for (const [key, envName] of Object.entries(ENV_KEYS)) {
+    const value = env[envName as string];
+    if (value && value.trim()) {
+      values[key] = value.trim();
+    }
+  }
+  return normaliseConfigValues(values, process.cwd(), 'the environment');
+}
+
+export function resolveConfig(...layers: Array<Partial<CurationConfig>>): CurationConfig {
+  return Object.assign({}, DEFAULT_CONFIG, ...layers);
+}
@@ -0,0 +1,554 @@
+/**
+ * dashboard.ts
+ *
+ * Small local web UI over the offers directory and the grading cache. Pages are rendered on the server
+ * with no client-side script: a filterable, sortable results table, and a detail page per offer with the
+ * rendered description, packages, the numbered image gallery (model hero highlighted) and the exact prompt
+ * sent. A button re-grades a single offer with the configured provider; its form carries a token generated
+ * when the server starts, so another site cannot trigger a paid model call with a cross-site form post.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { openGradingCache } from './grading_cache.js';
+import {
+  buildGradingRequest,
+  createGradingProvider,
+  GradingResult,
+  gradingCacheKey,
+  loadOffers,
+  offerStatus,
+  runGrading,
+  StructuredOffer,
+} from './offer_curation.js';
+import type { CurationConfig } from './curation_config.js';
+import { describeImageAnalysis, rankImagesForOffers } from './image_analysis.js';
+import { formatLintFinding } from './offer_lint.js';
+import { activityUrl, offerKey } from './locales.js';
+import { describeEnsemble, routeResult } from './ensemble.js';
+import { applyPolicy, describeOutcome, loadPolicy } from './approval_policy.js';
+import { applyClusters, ClusterMembership, findClusters } from './offer_similarity.js';
+import { describeChange } from './offer_snapshots.js';
+import { describeOverview, describePackage } from './package_model.js';
+import { applyReview, applyReviewStatuses, openReviewStore } from './review_store.js';
+import { errorFields, log } from './run_log.js';
+
+export interface DashboardOptions {
+  host: string;
+  port: number;
+}
+
+interface DashboardRow {
+  offer: StructuredOffer;
+  result: GradingResult | null;
+}
+
+const SORT_KEYS = ['activity_id', 'title', 'city', 'category', 'status', 'score'] as const;
+type SortKey = (typeof SORT_KEYS)[number];
+
+const STYLE = `
+body { font-family: system-ui, sans-serif; margin: 24px; color: #222; }
+table { border-collapse: collapse; width: 100%; font-size: 14px; }
+th, td { border-bottom: 1px solid #ddd; padding: 6px 8px; text-align: left; vertical-align: top; }
+th a { color: inherit; }
+form.filters { display: flex; gap: 8px; margin-bottom: 16px; flex-wrap: wrap; }
+.gallery { display: grid; grid-template-columns: repeat(auto-fill, minmax(220px, 1fr)); gap: 12px; }
+.gallery figure { margin: 0; border: 3px solid transparent; padding: 4px; }
+.gallery figure.hero { border-color: #d4a017; }
+.gallery img { width: 100%; height: auto; }
+.gallery figcaption { font-size: 12px; }
+.flag { color: #a33; }
+pre { white-space: pre-wrap; background: #f6f6f6; padding: 12px; font-size: 13px; }
+`;
+
+const REGRADE_MESSAGES: Record<string, string> = {
+  ok: 'Re-graded.',
+  failed: 'Re-grade failed; the previous cached grade (if any) is shown. See the server log for details.',
+  busy: 'A re-grade of this offer was already running.',
+};
+const MAX_FORM_BYTES = 4096;
+
+// --- Section: HTML helpers ---
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderInline(text: string): string {
+  return escapeHtml(text)
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*(.+?)\*/g, '<em>$1</em>')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<a href="$2" rel="noreferrer">$1</a>');
+}
+
+/**
+ * Renders the subset of markdown produced by renderSections: headings, bullet lists and paragraphs. Input
+ * is escaped first, so raw HTML in the feed is shown as text.
+ */
+export function renderMarkdown(markdown: string): string {
+  const html: string[] = [];
+  let listOpen = false;
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length) {
+      html.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+      paragraph = [];
+    }
+  };
+  const closeList = () => {
+    if (listOpen) {
+      html.push('</ul>');
+      listOpen = false;
+    }
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*]\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      closeList();
+      const level = Math.min(heading[1].length + 2, 6);
+      html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+    } else if (bullet) {
+      flushParagraph();
+      if (!listOpen) {
+        html.push('<ul>');
+        listOpen = true;
+      }
+      html.push(`<li>${renderInline(bullet[1])}</li>`);
+    } else if (!line.trim()) {
+      flushParagraph();
+      closeList();
+    } else {
+      closeList();
+      paragraph.push(line.trim());
+    }
+  }
+  flushParagraph();
+  closeList();
+  return html.join('\n');
+}
+
+function page(title: string, body: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${STYLE}</style></head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+// --- Section: Data ---
+async function loadRows(config: CurationConfig): Promise<DashboardRow[]> {
+  const reviews = await openReviewStore(config.reviewsPath);
+  const offers = await rankImagesForOffers(
+    applyReviewStatuses(await loadOffers(config.offersDir, config.locale), reviews),
+    config
+  );
+  const provider = createGradingProvider(config);
+  const cache = await openGradingCache(config.cachePath);
+  const policy = await loadPolicy(config.policyPath);
+  const results = new Map<StructuredOffer, GradingResult>();
+  for (const offer of offers) {
+    const cached = cache.get(offerKey(offer), gradingCacheKey(offer, provider, config));
+    if (cached) {
+      results.set(offer, applyReview(routeResult(cached, config.autoApproveConfidence), reviews));
+    }
+  }
+  // Clusters span every offer, so each row's cluster facts are known before the policy runs on it.
+  const clusters = findClusters(offers, [...results.values()], config);
+  return offers.map((offer) => {
+    const result = results.get(offer);
+    return { offer, result: result ? applyPolicy(applyClusters([result], clusters), [offer], policy)[0] : null };
+  });
+}
+
+// Size and mtime of every file the rows are built from, so an edit by another command shows up on the next request.
+async function sourceStamp(config: CurationConfig): Promise<string> {
+  let offerFiles: string[] = [];
+  try {
+    offerFiles = (await fs.promises.readdir(config.offersDir))
+      .filter((name) => name.toLowerCase().endsWith('.json'))
+      .map((name) => path.join(config.offersDir, name));
+  } catch {
+    // loadRows reports a missing offers directory.
+  }
+  const files = [config.cachePath, config.reviewsPath, config.policyPath, config.imageCacheDir, ...offerFiles];
+  const stamps = await Promise.all(
+    files.map(async (file) => {
+      try {
+        const stat = await fs.promises.stat(file);
+        return `${file}:${stat.size}:${stat.mtimeMs}`;
+      } catch {
+        return `${file}:missing`;
+      }
+    })
+  );
+  return stamps.join('\n');
+}
+
+/**
+ * Keeps the rows between requests, since building them decodes every cached image. They are rebuilt when a
+ * source file changes or after a re-grade.
+ */
+function createRowCache(config: CurationConfig) {
+  let rows: Promise<DashboardRow[]> | null = null;
+  let stamp = '';
+  return {
+    async get(): Promise<DashboardRow[]> {
+      const current = await sourceStamp(config);
+      if (!rows || current !== stamp) {
+        const loading = loadRows(config);
+        stamp = current;
+        rows = loading;
+        loading.catch(() => {
+          if (rows === loading) {
+            rows = null;
+          }
+        });
+      }
+      return rows;
+    },
+    invalidate(): void {
+      rows = null;
+    },
+  };
+}
+
+function sortValue(row: DashboardRow, key: SortKey): string | number {
+  switch (key) {
+    case 'activity_id':
+      return row.offer.activity_id;
+    case 'title':
+      return (row.offer.title || '').trim().toLowerCase();
+    case 'city':
+      return (row.offer.city || '').toLowerCase();
+    case 'category':
+      return (row.result?.categories.join(', ') || row.offer.category || '').trim().toLowerCase();
+    case 'status':
+      return offerStatus(row.offer);
+    case 'score':
+      return row.result?.score ?? -1;
+  }
+}
+
+function filterRows(rows: DashboardRow[], query: URLSearchParams): DashboardRow[] {
+  const text = (query.get('q') || '').trim().toLowerCase();
+  const category = query.get('category') || '';
+  const city = query.get('city') || '';
+  const status = query.get('status') || '';
+  const minScore = query.get('min_score');
+
+  return rows.filter(({ offer, result }) => {
+    if (text && !`${offer.activity_id} ${offer.title || ''}`.toLowerCase().includes(text)) {
+      return false;
+    }
+    if (category && !(result?.categories || []).includes(category)) {
+      return false;
+    }
+    if (city && offer.city !== city) {
+      return false;
+    }
+    if (status && offerStatus(offer) !== status) {
+      return false;
+    }
+    if (minScore && (result?.score ?? -1) < Number(minScore)) {
+      return false;
+    }
+    return true;
+  });
+}
+
+// --- Section: Pages ---
+function options(values: string[], selected: string): string {
+  return ['', ...values]
+    .map((value) => {
+      const attr = value === selected ? ' selected' : '';
+      return `<option value="${escapeHtml(value)}"${attr}>${escapeHtml(value || 'any')}</option>`;
+    })
+    .join('');
+}
+
+function renderIndex(rows: DashboardRow[], query: URLSearchParams): string {
+  const sort = (SORT_KEYS as readonly string[]).includes(query.get('sort') || '')
+    ? (query.get('sort') as SortKey)
+    : 'score';
+  const direction = query.get('dir') === 'asc' ? 'asc' : 'desc';
+  const visible = filterRows(rows, query).sort((a, b) => {
+    const left = sortValue(a, sort);
+    const right = sortValue(b, sort);
+    const order = left < right ? -1 : left > right ? 1 : 0;
+    return direction === 'asc' ? order : -order;
+  });
+
+  const unique = (values: Array<string | undefined>) =>
+    [...new Set(values.filter((value): value is string => Boolean(value)))].sort();
+  const categories = unique(rows.flatMap((row) => row.result?.categories || []));
+  const cities = unique(rows.map((row) => row.offer.city));
+  const statuses = unique(rows.map((row) => offerStatus(row.offer)));
+  const minScore = escapeHtml(query.get('min_score') || '');
+
+  const header = (key: SortKey, label: string): string => {
+    const next = new URLSearchParams(query);
+    next.set('sort', key);
+    next.set('dir', sort === key && direction === 'desc' ? 'asc' : 'desc');
+    const marker = sort === key ? (direction === 'desc' ? ' ▼' : ' ▲') : '';
+    return `<th><a href="/?${escapeHtml(next.toString())}">${label}${marker}</a></th>`;
+  };
+  const headers = [
+    header('activity_id', 'ID'),
+    header('title', 'Title'),
+    header('city', 'City'),
+    header('category', 'Category'),
+    header('status', 'Status'),
+    header('score', 'Score'),
+  ].join('');
+
+  const body = visible
+    .map(({ offer, result }) => {
+      const flags = result
+        ? [
+            ...result.hero_flags,
+            ...result.audience_flags,
+            ...(result.location_flags ?? []),
+            ...(result.category_mismatch ? ['category mismatch'] : []),
+            ...(result.ensemble?.route === 'human_review' ? ['needs review'] : []),
+          ]
+        : [];
+      const invalid = result && !result.valid ? ' <span class="flag">invalid</span>' : '';
+      const score = result ? `${escapeHtml(result.score ?? '-')}${invalid}` : 'not graded';
+      const href = `/offers/${encodeURIComponent(String(offer.activity_id))}`;
+      return `<tr>
+<td>${escapeHtml(offer.activity_id)}</td>
+<td><a href="${href}">${escapeHtml((offer.title || '').trim())}</a></td>
+<td>${escapeHtml(offer.city)}</td>
+<td>${escapeHtml(result?.categories.join(', ') || (offer.category || '').trim())}</td>
+<td>${escapeHtml(offerStatus(offer))}</td>
+<td>${score}</td>
+<td>${escapeHtml(result?.review?.state ?? '')}</td>
+<td class="flag">${escapeHtml(flags.join('; '))}</td>
+</tr>`;
+    })
+    .join('\n');
+
+  return page(
+    'Offer curation',
+    `<h1>Offer curation</h1>
+<form class="filters" method="get" action="/">
+<input type="search" name="q" placeholder="Title or ID" value="${escapeHtml(query.get('q') || '')}">
+<label>Category <select name="category">${options(categories, query.get('category') || '')}</select></label>
+<label>City <select name="city">${options(cities, query.get('city') || '')}</select></label>
+<label>Status <select name="status">${options(statuses, query.get('status') || '')}</select></label>
+<label>Min score <input type="number" name="min_score" min="0" max="5" value="${minScore}"></label>
+<input type="hidden" name="sort" value="${sort}"><input type="hidden" name="dir" value="${direction}">
+<button type="submit">Filter</button> <a href="/">Reset</a>
+</form>
+<p>${visible.length} of ${rows.length} offers</p>
+<table>
+<thead><tr>${headers}<th>Review</th><th>Flags</th></tr></thead>
+<tbody>
+${body}
+</tbody>
+</table>`
+  );
+}
+
+function renderCluster(cluster: ClusterMembership): string {
+  const bestId = escapeHtml(cluster.best_activity_id);
+  const best = cluster.best
+    ? 'this offer is the suggested best'
+    : `best is <a href="/offers/${encodeURIComponent(cluster.best_activity_id)}">${bestId}</a>`;
+  const summary = `${escapeHtml(cluster.cluster_id)} (${cluster.kind}, ${cluster.size} offers)`;
+  return `<p><strong>Cluster:</strong> ${summary}; ${best}</p>`;
+}
+
+function renderDetail(row: DashboardRow, config: CurationConfig, message: string | null, formToken: string): string {
+  const { offer, result } = row;
+  const id = encodeURIComponent(String(offer.activity_id));
+  const request = buildGradingRequest(offer, config);
+
+  const list = (items: string[]) =>
+    items.length ? `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : '<p>None.</p>';
+
+  const invalid = result && !result.valid ? ' <span class="flag">(invalid output)</span>' : '';
+  const overridden = result?.review?.overridden_fields.length
+    ? ` (overridden: ${escapeHtml(result.review.overridden_fields.join(', '))})`
+    : '';
+  const grade = result
+    ? `<p><strong>Score:</strong> ${escapeHtml(result.score ?? '-')}${invalid}</p>
+<p><strong>Categories:</strong> ${escapeHtml(result.categories.join(', ') || '-')}
+ (suggested: ${escapeHtml(result.suggested_categories.join(', ') || 'none')})</p>
+<p><strong>Target audiences:</strong> ${escapeHtml(result.target_audiences.join(', ') || '-')}</p>
+<p><strong>Reason:</strong> ${escapeHtml(result.reason)}</p>
+<p><strong>Hero:</strong> ${escapeHtml(result.hero_image_reason)}</p>
+<h3>Flags</h3>
+${list([
+  ...result.hero_flags,
+  ...result.audience_flags,
+  ...(result.location_flags ?? []),
+  ...(result.ensemble?.route_reasons ?? []),
+  ...(result.category_mismatch ? ['Model categories ignore the mapped suggestion.'] : []),
+  ...result.validation_errors,
+])}
+<p><strong>Review:</strong> ${escapeHtml(result.review?.state ?? 'unreviewed')}${overridden}</p>
+${result.cluster ? renderCluster(result.cluster) : ''}
+${result.decision ? `<p><strong>Decision:</strong> ${escapeHtml(describeOutcome(result.decision))}</p>` : ''}
+<p><strong>Prompt version:</strong> ${escapeHtml(result.prompt_version ?? 'unrecorded')}</p>
+${result.ensemble ? `<p><strong>Ensemble:</strong> ${escapeHtml(describeEnsemble(result.ensemble))}</p>` : ''}
+<p><strong>Content locale:</strong> ${escapeHtml(result.content_locale ?? offer.locale)}</p>
+<h3>Klook changes since the previous grade${result.change_action === 'ignored' ? ' (ignored by policy)' : ''}</h3>
+${list((result.changes ?? []).map(describeChange))}`
+    : '<p>Not graded with the current prompt and settings.</p>';
+
+  const packages = offer.packages
+    .map(
+      (pkg, index) => `<h3>${escapeHtml(pkg.package_name || `Package ${index + 1}`)}</h3>
+<p>${escapeHtml(describePackage(pkg))}</p>
+${renderMarkdown(pkg.sections_markdown || '')}`
+    )
+    .join('\n');
+
+  const gallery = offer.image_details
+    .map((image, index) => {
+      const isHero = Boolean(result?.hero_image_url) && image.url === result?.hero_image_url;
+      const sent = index < config.maxImagesToReview ? '' : ' (not sent to the model)';
+      return `<figure class="${isHero ? 'hero' : ''}">
+<img src="${escapeHtml(image.url)}" alt="${escapeHtml(image.alt)}" loading="lazy">
+<figcaption><strong>[${index + 1}]${isHero ? ' HERO' : ''}</strong>${sent}
+${escapeHtml(image.type)} ${escapeHtml(image.alt)}
+${image.analysis ? `<br>${escapeHtml(describeImageAnalysis(image.analysis))}` : ''}</figcaption>
+</figure>`;
+    })
+    .join('\n');
+
+  return page(
+    `${offer.activity_id} ${(offer.title || '').trim()}`,
+    `<p><a href="/">&larr; All offers</a></p>
+<h1>${escapeHtml((offer.title || '').trim())}</h1>
+<p>${escapeHtml(offer.activity_id)} &middot; ${escapeHtml(offer.city)}, ${escapeHtml(offer.country)} &middot;
+status ${escapeHtml(offerStatus(offer))} &middot;
+<a href="${escapeHtml(activityUrl(offer.activity_id, config.locale))}" rel="noreferrer">Klook</a></p>
+${message ? `<p><strong>${escapeHtml(message)}</strong></p>` : ''}
+<form method="post" action="/offers/${id}/regrade">
+<input type="hidden" name="token" value="${formToken}"><button type="submit">Re-grade this offer</button>
+</form>
+<h2>Grade</h2>
+${grade}
+<h3>Lint</h3>
+${list((result?.lint_findings ?? []).map(formatLintFinding))}
+<h2>Images</h2>
+<div class="gallery">${gallery}</div>
+<h2>Description</h2>
+${renderMarkdown(offer.description_markdown || '')}
+<h2>Packages</h2>
+<p>${escapeHtml(describeOverview(offer.package_overview))}</p>
+${packages}
+<h2>Prompt (${escapeHtml(config.promptVersion)})</h2>
+<pre>${escapeHtml(request.prompt)}</pre>
+<details><summary>System prompt</summary><pre>${escapeHtml(request.instructions)}</pre></details>`
+  );
+}
+
+// --- Section: Server ---
+function send(res: http.ServerResponse, status: number, body: string, type = 'text/html; charset=utf-8') {
+  res.writeHead(status, { 'Content-Type': type });
+  res.end(body);
+}
+
+// Reads a small urlencoded form body; anything past MAX_FORM_BYTES is dropped.
+function readForm(req: http.IncomingMessage): Promise<URLSearchParams> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => {
+      if (body.length < MAX_FORM_BYTES) {
+        body += chunk.toString('utf-8');
+      }
+    });
+    req.on('end', () => resolve(new URLSearchParams(body.slice(0, MAX_FORM_BYTES))));
+    req.on('error', reject);
+  });
+}
+
+function sameToken(given: string | null, expected: string): boolean {
+  const a = Buffer.from(given ?? '');
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+export function startDashboard(config: CurationConfig, options: DashboardOptions): Promise<http.Server> {
+  // One re-grade per offer at a time; a second click while one is running is ignored.
+  const regrading = new Set<string>();
+  const formToken = crypto.randomBytes(16).toString('hex');
+  const rowCache = createRowCache(config);
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    try {
+      if (req.method === 'GET' && url.pathname === '/') {
+        send(res, 200, renderIndex(await rowCache.get(), url.searchParams));
+        return;
+      }
+
+      const detail = url.pathname.match(/^\/offers\/(\d+)(\/regrade)?$/);
+      if (!detail) {
+        send(res, 404, page('Not found', '<p>Not found. <a href="/">All offers</a></p>'));
+        return;
+      }
+      const activityId = detail[1];
+
+      if (req.method === 'POST' && detail[2]) {
+        if (!sameToken((await readForm(req)).get('token'), formToken)) {
+          send(res, 403, page('Forbidden', '<p>Re-grade requests must come from the dashboard page.</p>'));
+          return;
+        }
+        let outcome = 'busy';
+        if (!regrading.has(activityId)) {
+          regrading.add(activityId);
+          try {
+            const { results } = await runGrading(config, { only: new Set([activityId]) });
+            const result = results[0];
+            outcome = result?.valid ? 'ok' : 'failed';
+          } finally {
+            regrading.delete(activityId);
+            rowCache.invalidate();
+          }
+        }
+        res.writeHead(303, { Location: `/offers/${activityId}?regraded=${outcome}` });
+        res.end();
+        return;
+      }
+
+      const row = (await rowCache.get()).find((item) => String(item.offer.activity_id) === activityId);
+      if (req.method !== 'GET' || detail[2] || !row) {
+        send(res, 404, page('Not found', `<p>No offer ${escapeHtml(activityId)}. <a href="/">All offers</a></p>`));
+        return;
+      }
+      const message = REGRADE_MESSAGES[url.searchParams.get('regraded') || ''] ?? null;
+      send(res, 200, renderDetail(row, config, message, formToken));
+    } catch (error: any) {
+      log.error('dashboard_request_failed', `Dashboard request ${req.url} failed.`, errorFields(error));
+      send(res, 500, page('Error', `<pre>${escapeHtml(error?.message || error)}</pre>`));
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      log.info('dashboard_listening', `Dashboard listening on http://${options.host}:${options.port}/`, {
+        host: options.host,
+        port: options.port,
+      });
+      resolve(server);
+    });
+  });
+}
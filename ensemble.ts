@@ -0,0 +1,221 @@
+/**
+ * ensemble.ts
+ *
+ * Optional multi-pass grading. With `ensembleRuns` above one or several `ensembleEfforts`, each offer is graded
+ * once per pass and the passes are folded into one result: the median score and its spread, categories and
+ * audiences chosen by vote, and the hero image most passes picked. How far the passes agree becomes a 0-1
+ * confidence; disputed or low-confidence offers are routed to human review and the rest can be auto-approved.
+ */
+
+import type { CurationConfig, ReasoningEffort } from './curation_config.js';
+import type { GradingProvider } from './grading_providers.js';
+import type { GradingResult } from './offer_curation.js';
+import { checkTargetAudiences } from './package_model.js';
+import { addUsage, emptyUsage } from './run_manifest.js';
+import { isCategoryMismatch } from './taxonomy.js';
+
+export type ReviewRoute = 'auto_approve' | 'human_review';
+
+export interface EnsemblePass {
+  // 1-based; fixture and record providers use it to keep one response file per pass.
+  pass: number;
+  effort: ReasoningEffort;
+}
+
+export interface EnsembleSummary {
+  // One entry per pass, in pass order; a null score is a pass whose output never validated.
+  efforts: ReasoningEffort[];
+  scores: Array<number | null>;
+  valid_passes: number;
+  score_median: number | null;
+  // Highest minus lowest valid score.
+  score_spread: number | null;
+  // Share of valid passes matching the aggregate (mean Jaccard overlap for the category and audience lists).
+  agreement: { score: number; categories: number; audiences: number; hero: number };
+  confidence: number;
+  disputed: boolean;
+  route: ReviewRoute;
+  // Why the offer goes to human review; empty when it can be auto-approved.
+  route_reasons: string[];
+}
+
+// A spread this wide means the passes disagree about the offer, not just about a borderline score.
+export const DISPUTED_SCORE_SPREAD = 2;
+
+// --- Section: Passes ---
+/**
+ * Every configured effort (or the base `reasoningEffort`), repeated `ensembleRuns` times. One pass means the
+ * ensemble is off.
+ */
+export function ensemblePasses(
+  config: Pick<CurationConfig, 'reasoningEffort' | 'ensembleRuns' | 'ensembleEfforts'>
+): EnsemblePass[] {
+  const efforts = config.ensembleEfforts.length ? config.ensembleEfforts : [config.reasoningEffort];
+  const passes: EnsemblePass[] = [];
+  for (let run = 0; run < config.ensembleRuns; run += 1) {
+    efforts.forEach((effort) => passes.push({ pass: passes.length + 1, effort }));
+  }
+  return passes;
+}
+
+// Sends each request of one pass with the pass's reasoning effort and number.
+export function providerForPass(provider: GradingProvider, pass: EnsemblePass): GradingProvider {
+  return {
+    name: provider.name,
+    grade: (request) =>
+      provider.grade({
+        ...request,
+        reasoning_effort: pass.effort,
+        metadata: { ...request.metadata, ensemble_pass: String(pass.pass) },
+      }),
+  };
+}
+
+// --- Section: Voting ---
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Items chosen by more than half the lists; when nothing reaches a majority, the most-voted items, so the
+ * aggregate is never emptier than the passes.
+ */
+function vote(lists: string[][]): string[] {
+  const counts = new Map<string, number>();
+  lists.forEach((list) => new Set(list).forEach((item) => counts.set(item, (counts.get(item) ?? 0) + 1)));
+  const majority = [...counts.keys()].filter((item) => (counts.get(item) ?? 0) * 2 > lists.length);
+  if (majority.length || !counts.size) {
+    return majority;
+  }
+  const top = Math.max(...counts.values());
+  return [...counts.keys()].filter((item) => counts.get(item) === top);
+}
+
+function overlap(a: string[], b: string[]): number {
+  const union = new Set([...a, ...b]);
+  return union.size ? a.filter((item) => b.includes(item)).length / union.size : 1;
+}
+
+// --- Section: Aggregation ---
+/**
+ * Folds the passes' results into one. The reason and hero of the first valid pass agreeing with the aggregate
+ * score and hero are kept; token usage and attempts are summed.
+ */
+export function aggregatePasses(
+  results: GradingResult[],
+  passes: EnsemblePass[],
+  autoApproveConfidence: number
+): GradingResult {
+  const usage = emptyUsage();
+  results.forEach((result) => addUsage(usage, result.usage));
+  const attempts = results.reduce((sum, result) => sum + result.attempts, 0);
+  const valid = results.filter((result) => result.valid && result.score != null);
+  const base: Omit<EnsembleSummary, 'score_median' | 'score_spread' | 'agreement' | 'confidence'> = {
+    efforts: passes.map((pass) => pass.effort),
+    scores: results.map((result) => (result.valid ? result.score : null)),
+    valid_passes: valid.length,
+    // Set by routeEnsemble.
+    disputed: false,
+    route: 'human_review',
+    route_reasons: [],
+  };
+
+  if (!valid.length) {
+    const ensemble: EnsembleSummary = {
+      ...base,
+      score_median: null,
+      score_spread: null,
+      agreement: { score: 0, categories: 0, audiences: 0, hero: 0 },
+      confidence: 0,
+    };
+    return { ...results[0], attempts, usage, ensemble: routeEnsemble(ensemble, autoApproveConfidence) };
+  }
+
+  const scores = valid.map((result) => result.score as number);
+  const scoreMedian = median(scores);
+  // Scores are whole numbers; a median between two of them rounds up.
+  const score = Math.round(scoreMedian);
+  const spread = Math.max(...scores) - Math.min(...scores);
+  const categories = vote(valid.map((result) => result.categories));
+  const audiences = vote(valid.map((result) => result.target_audiences));
+
+  const heroVotes = new Map<string, number>();
+  valid.forEach((result) => {
+    const key = result.hero_image_url ?? '';
+    heroVotes.set(key, (heroVotes.get(key) ?? 0) + 1);
+  });
+  // Map order is first-seen, so ties go to the earliest pass.
+  const [hero, heroCount] = [...heroVotes.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  const sameHero = valid.filter((result) => (result.hero_image_url ?? '') === hero);
+  const representative = sameHero.find((result) => result.score === score) ?? sameHero[0];
+
+  const agreement = {
+    score: valid.filter((result) => result.score === score).length / valid.length,
+    categories: mean(valid.map((result) => overlap(result.categories, categories))),
+    audiences: mean(valid.map((result) => overlap(result.target_audiences, audiences))),
+    hero: heroCount / valid.length,
+  };
+  const confidence =
+    Math.round((valid.length / results.length) * mean(Object.values(agreement)) * 100) / 100;
+
+  return {
+    ...representative,
+    score,
+    categories,
+    target_audiences: audiences,
+    category_mismatch: isCategoryMismatch(categories, representative.suggested_categories),
+    audience_flags: checkTargetAudiences(audiences, representative.package_overview),
+    attempts,
+    usage,
+    ensemble: routeEnsemble(
+      { ...base, score_median: scoreMedian, score_spread: spread, agreement, confidence },
+      autoApproveConfidence
+    ),
+  };
+}
+
+// --- Section: Routing ---
+/**
+ * Sets the dispute flag and review route from the summary's own fields, so a cached result can be routed again
+ * under the current `autoApproveConfidence` without re-grading.
+ */
+export function routeEnsemble(summary: EnsembleSummary, autoApproveConfidence: number): EnsembleSummary {
+  if (!summary.valid_passes) {
+    return { ...summary, disputed: false, route: 'human_review', route_reasons: ['No pass produced valid output.'] };
+  }
+  const scores = summary.scores.filter((score): score is number => score != null);
+  const reasons: string[] = [];
+  if ((summary.score_spread ?? 0) >= DISPUTED_SCORE_SPREAD) {
+    reasons.push(`Pass scores range from ${Math.min(...scores)} to ${Math.max(...scores)}.`);
+  }
+  if (summary.agreement.hero <= 0.5) {
+    const heroCount = Math.round(summary.agreement.hero * summary.valid_passes);
+    reasons.push(`Only ${heroCount} of ${summary.valid_passes} passes picked the same hero image.`);
+  }
+  const disputed = reasons.length > 0;
+  const passes = summary.scores.length;
+  if (summary.valid_passes < passes) {
+    reasons.push(`${passes - summary.valid_passes} of ${passes} passes produced invalid output.`);
+  }
+  if (summary.confidence < autoApproveConfidence) {
+    reasons.push(`Confidence ${summary.confidence} is below ${autoApproveConfidence}.`);
+  }
+  return { ...summary, disputed, route: reasons.length ? 'human_review' : 'auto_approve', route_reasons: reasons };
+}
+
+// Re-routes a stored ensemble result; single-pass results are returned as they are.
+export function routeResult(result: GradingResult, autoApproveConfidence: number): GradingResult {
+  return result.ensemble ? { ...result, ensemble: routeEnsemble(result.ensemble, autoApproveConfidence) } : result;
+}
+
+export function describeEnsemble(summary: EnsembleSummary): string {
+  const scores = summary.scores.map((score, index) => `${score ?? 'invalid'} (${summary.efforts[index]})`);
+  const route = summary.route === 'auto_approve' ? 'auto-approve' : 'human review';
+  return `${summary.scores.length} passes scored ${scores.join(', ')}; confidence ${summary.confidence}, ${route}.`;
+}
@@ -0,0 +1,300 @@
+/**
+ * exporters.ts
+ *
+ * Writers for graded results. Each format is an exporter in `EXPORTERS`, fed the same rows (a result
+ * paired with the structured offer it was graded from):
+ *
+ *   csv        RFC 4180 CSV of the results table; lists are JSON arrays so values containing commas or
+ *              semicolons round-trip, and text that a spreadsheet would run as a formula is neutralised
+ *   jsonl      one line per offer with the full result and the structured offer fields
+ *   xlsx       workbook with a Results sheet (same columns as the CSV) and a Lint findings sheet
+ *   storefront JSON payload for the storefront's offer import of approved offers: hero image, categories and
+ *              audiences
+ *
+ * Adding a format means adding an entry to `EXPORTERS`; the CLI and config pick it up by name.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { GradingResult, StructuredOffer } from './offer_curation.js';
+import { countLintFindings, formatLintFinding } from './offer_lint.js';
+import { describeChange } from './offer_snapshots.js';
+import { DECISION_STATUSES } from './approval_policy.js';
+import { activityUrl, DEFAULT_LOCALE } from './locales.js';
+import { formatPaxRange } from './package_model.js';
+import { parentCategoryOf } from './taxonomy.js';
+import { log } from './run_log.js';
+import { buildXlsx, CellValue } from './xlsx_writer.js';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'xlsx' | 'storefront';
+
+export interface ExportRow {
+  result: GradingResult;
+  // Null when the offer file is no longer in the offers directory.
+  offer: StructuredOffer | null;
+}
+
+export interface ResultExporter {
+  format: ExportFormat;
+  // Replaces the output path's extension when the format is not the one the path names.
+  extension: string;
+  write(rows: ExportRow[], outputPath: string): Promise<void>;
+}
+
+type ColumnValue = string | number | boolean | null | string[];
+
+interface ExportColumn {
+  header: string;
+  value(result: GradingResult): ColumnValue;
+}
+
+// --- Section: Results table shared by CSV and XLSX ---
+function resultUrl(result: GradingResult): string {
+  return activityUrl(result.activity_id, result.locale);
+}
+
+const RESULT_COLUMNS: ExportColumn[] = [
+  { header: 'activity_id', value: (result) => (result.activity_id != null ? String(result.activity_id) : '') },
+  { header: 'activity_url', value: resultUrl },
+  { header: 'locale', value: (result) => result.locale ?? DEFAULT_LOCALE },
+  { header: 'content_locale', value: (result) => result.content_locale ?? result.locale ?? DEFAULT_LOCALE },
+  { header: 'hero_image_index', value: (result) => result.hero_image_index },
+  { header: 'hero_image_url', value: (result) => result.hero_image_url },
+  { header: 'hero_image_reason', value: (result) => result.hero_image_reason },
+  { header: 'hero_flags', value: (result) => result.hero_flags },
+  { header: 'categories', value: (result) => result.categories },
+  { header: 'target_audiences', value: (result) => result.target_audiences },
+  { header: 'suggested_categories', value: (result) => result.suggested_categories },
+  { header: 'category_mismatch', value: (result) => result.category_mismatch },
+  { header: 'age_bands', value: (result) => result.package_overview.age_bands.map((band) => band.label) },
+  { header: 'has_child_sku', value: (result) => result.package_overview.has_child_sku },
+  {
+    header: 'pax_range',
+    value: (result) => formatPaxRange(result.package_overview.min_pax, result.package_overview.max_pax),
+  },
+  { header: 'cancellation_policy', value: (result) => result.package_overview.cancellation_summary },
+  { header: 'instant_confirmation', value: (result) => result.package_overview.instant_confirmation },
+  { header: 'audience_flags', value: (result) => result.audience_flags },
+  { header: 'location_type', value: (result) => result.location_type ?? '' },
+  { header: 'location_flags', value: (result) => result.location_flags ?? [] },
+  { header: 'score', value: (result) => result.score },
+  {
+    header: 'ensemble_scores',
+    value: (result) => (result.ensemble?.scores ?? []).map((score) => String(score ?? 'invalid')),
+  },
+  { header: 'score_spread', value: (result) => result.ensemble?.score_spread ?? null },
+  { header: 'confidence', value: (result) => result.ensemble?.confidence ?? null },
+  { header: 'review_route', value: (result) => result.ensemble?.route ?? '' },
+  { header: 'review_route_reasons', value: (result) => result.ensemble?.route_reasons ?? [] },
+  { header: 'reason', value: (result) => result.reason },
+  { header: 'valid', value: (result) => result.valid },
+  { header: 'validation_errors', value: (result) => result.validation_errors },
+  { header: 'attempts', value: (result) => result.attempts },
+  { header: 'prompt_version', value: (result) => result.prompt_version ?? '' },
+  { header: 'changes', value: (result) => (result.changes ?? []).map(describeChange) },
+  { header: 'change_action', value: (result) => result.change_action ?? '' },
+  { header: 'cluster_id', value: (result) => result.cluster?.cluster_id ?? '' },
+  { header: 'cluster_kind', value: (result) => result.cluster?.kind ?? '' },
+  { header: 'best_in_cluster', value: (result) => result.cluster?.best_activity_id ?? '' },
+  { header: 'decision', value: (result) => result.decision?.decision ?? '' },
+  { header: 'decision_rule', value: (result) => result.decision?.rule ?? '' },
+  { header: 'status', value: (result) => result.review?.status ?? '' },
+  { header: 'review_state', value: (result) => result.review?.state ?? 'unreviewed' },
+  { header: 'overridden_fields', value: (result) => result.review?.overridden_fields ?? [] },
+  { header: 'reviewers', value: (result) => result.review?.reviewers ?? [] },
+  { header: 'review_notes', value: (result) => result.review?.notes ?? [] },
+  { header: 'lint_errors', value: (result) => countLintFindings(result.lint_findings, 'error') },
+  { header: 'lint_warnings', value: (result) => countLintFindings(result.lint_findings, 'warning') },
+  { header: 'lint_findings', value: (result) => result.lint_findings.map(formatLintFinding) },
+  {
+    header: 'log_url',
+    value: (result) => (result.response_id ? `https://platform.openai.com/logs/${result.response_id}` : ''),
+  },
+  { header: 'artifact_path', value: (result) => result.artifact_path ?? '' },
+];
+
+/**
+ * Lists are written as JSON arrays (e.g. ["Attraction passes","Museums"]): the encoding is stable across
+ * runs and unambiguous for leaves that contain commas.
+ */
+function encodeList(items: string[]): string {
+  return JSON.stringify(items);
+}
+
+// --- Section: CSV ---
+// Leading characters that make Excel, Sheets and LibreOffice treat a cell as a formula.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvField(value: ColumnValue): string {
+  let text: string;
+  if (value == null) {
+    text = '';
+  } else if (Array.isArray(value)) {
+    text = encodeList(value);
+  } else if (typeof value === 'string') {
+    // A leading apostrophe shows the text as typed instead of evaluating it.
+    text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  } else {
+    text = String(value);
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function writeCsv(rows: ExportRow[], outputPath: string): Promise<void> {
+  const lines = [RESULT_COLUMNS.map((column) => column.header).join(',')];
+  for (const { result } of rows) {
+    lines.push(RESULT_COLUMNS.map((column) => escapeCsvField(column.value(result))).join(','));
+  }
+  await fs.promises.writeFile(outputPath, `${lines.join('\r\n')}\r\n`, 'utf-8');
+}
+
+// --- Section: JSONL ---
+function offerFields(offer: StructuredOffer): Omit<StructuredOffer, 'raw'> {
+  const { raw: _raw, ...fields } = offer;
+  return fields;
+}
+
+async function writeJsonl(rows: ExportRow[], outputPath: string): Promise<void> {
+  const lines = rows.map(({ result, offer }) =>
+    JSON.stringify({ ...result, offer: offer ? offerFields(offer) : null })
+  );
+  await fs.promises.writeFile(outputPath, lines.map((line) => `${line}\n`).join(''), 'utf-8');
+}
+
+// --- Section: XLSX ---
+function toCell(value: ColumnValue): CellValue {
+  // Inline strings are never evaluated, so the CSV formula guard is not needed here.
+  return Array.isArray(value) ? encodeList(value) : value;
+}
+
+async function writeXlsx(rows: ExportRow[], outputPath: string): Promise<void> {
+  const results: CellValue[][] = [RESULT_COLUMNS.map((column) => column.header)];
+  const findings: CellValue[][] = [['activity_id', 'rule', 'severity', 'message']];
+  for (const { result } of rows) {
+    results.push(RESULT_COLUMNS.map((column) => toCell(column.value(result))));
+    for (const finding of result.lint_findings) {
+      findings.push([String(result.activity_id ?? ''), finding.rule, finding.severity, finding.message]);
+    }
+  }
+  const workbook = buildXlsx([
+    { name: 'Results', rows: results },
+    { name: 'Lint findings', rows: findings },
+  ]);
+  await fs.promises.writeFile(outputPath, workbook);
+}
+
+// --- Section: Storefront import payload ---
+export interface StorefrontOffer {
+  external_id: string;
+  source: 'klook';
+  source_url: string;
+  title: string;
+  city: string | null;
+  country: string | null;
+  score: number;
+  status: string | null;
+  hero_image: { url: string; alt: string | null; width: number | null; height: number | null } | null;
+  categories: Array<{ parent: string | null; leaf: string }>;
+  target_audiences: string[];
+}
+
+function storefrontOffer(result: GradingResult, offer: StructuredOffer | null): StorefrontOffer {
+  const hero = result.hero_image_url
+    ? offer?.image_details.find((image) => image.url === result.hero_image_url)
+    : undefined;
+  return {
+    external_id: `klook:${result.activity_id}`,
+    source: 'klook',
+    source_url: resultUrl(result),
+    title: (offer?.title || '').trim(),
+    city: offer?.city || null,
+    country: offer?.country || null,
+    score: result.score as number,
+    status: result.review?.status ?? null,
+    hero_image: result.hero_image_url
+      ? {
+          url: result.hero_image_url,
+          alt: (hero?.alt || '').trim() || null,
+          width: hero?.width ?? null,
+          height: hero?.height ?? null,
+        }
+      : null,
+    categories: result.categories.map((leaf) => ({ parent: parentCategoryOf(leaf), leaf })),
+    target_audiences: result.target_audiences,
+  };
+}
+
+// A recorded status decides (CURATED is listed, REJECTED or any other status is not); without one, the
+// approval policy must approve the offer.
+function isApproved(result: GradingResult): boolean {
+  const status = result.review?.status;
+  return status ? status === DECISION_STATUSES.approve : result.decision?.decision === 'approve';
+}
+
+/**
+ * Only approved offers with a valid grade are importable; the rest are left out with a warning so a partial
+ * run can still be published.
+ */
+async function writeStorefront(rows: ExportRow[], outputPath: string): Promise<void> {
+  const graded = rows.filter(({ result }) => result.valid && result.score != null);
+  const importable = graded.filter(({ result }) => isApproved(result));
+  const invalid = rows.length - graded.length;
+  const unapproved = graded.length - importable.length;
+  if (invalid || unapproved) {
+    log.warn(
+      'storefront_offers_skipped',
+      `Storefront payload leaves out ${invalid} offers without a valid grade and ${unapproved} not approved.`,
+      { skipped: invalid + unapproved, invalid, unapproved }
+    );
+  }
+  const payload = {
+    generated_at: new Date().toISOString(),
+    offers: importable.map(({ result, offer }) => storefrontOffer(result, offer)),
+  };
+  await fs.promises.writeFile(outputPath, `${JSON.stringify(payload, null, 2)}\n`, 'utf-8');
+}
+
+// --- Section: Registry ---
+export const EXPORTERS: Record<ExportFormat, ResultExporter> = {
+  csv: { format: 'csv', extension: '.csv', write: writeCsv },
+  jsonl: { format: 'jsonl', extension: '.jsonl', write: writeJsonl },
+  xlsx: { format: 'xlsx', extension: '.xlsx', write: writeXlsx },
+  storefront: { format: 'storefront', extension: '.storefront.json', write: writeStorefront },
+};
+
+export const EXPORT_FORMATS = Object.keys(EXPORTERS) as ExportFormat[];
+
+export function buildExportRows(results: GradingResult[], offers: StructuredOffer[]): ExportRow[] {
+  const byId = new Map(offers.map((offer) => [String(offer.activity_id ?? ''), offer]));
+  return results.map((result) => ({ result, offer: byId.get(String(result.activity_id ?? '')) ?? null }));
+}
+
+/**
+ * The output path is used as-is for the format whose extension it already has; every other format goes
+ * next to it with its own extension (graded_offers_ts.csv -> graded_offers_ts.storefront.json).
+ */
+export function exportPath(outputPath: string, exporter: ResultExporter): string {
+  if (outputPath.toLowerCase().endsWith(exporter.extension)) {
+    return outputPath;
+  }
+  const base = outputPath.slice(0, outputPath.length - path.extname(outputPath).length);
+  return `${base}${exporter.extension}`;
+}
+
+export async function writeExports(
+  results: GradingResult[],
+  offers: StructuredOffer[],
+  formats: ExportFormat[],
+  outputPath: string
+): Promise<string[]> {
+  const rows = buildExportRows(results, offers);
+  const written: string[] = [];
+  for (const format of formats) {
+    const exporter = EXPORTERS[format];
+    const target = exportPath(outputPath, exporter);
+    await exporter.write(rows, target);
+    log.info('export_written', `${format.toUpperCase()} exported to ${target}`, { format, file: target });
+    written.push(target);
+  }
+  return written;
+}
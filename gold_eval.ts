@@ -0,0 +1,336 @@
+/**
+ * gold_eval.ts
+ *
+ * Evaluation against a gold-labelled offer set. Editors record, per activity_id, the acceptable score
+ * range, the expected categories and audiences, and which images would make an acceptable hero. `eval`
+ * grades those offers with the current prompt and settings (bypassing the cache), compares each grade with
+ * its labels and fails when a metric crosses its threshold, so prompt or setting changes can be checked
+ * before they ship.
+ */
+
+import fs from 'fs';
+import type { CurationConfig } from './curation_config.js';
+import { createGradingProvider, gradeOffers, GradingResult, loadOffers, StructuredOffer } from './offer_curation.js';
+import { rankImagesForOffers } from './image_analysis.js';
+import { CATEGORY_LEAVES, TARGET_AUDIENCES } from './taxonomy.js';
+import { log } from './run_log.js';
+
+export interface GoldEntry {
+  activity_id: string;
+  score: { min: number; max: number };
+  categories: string[];
+  target_audiences: string[];
+  // 1-based positions in Klook's image list (before image ranking), so labels survive ranking changes.
+  // An empty list means no supplied image is acceptable and the model should return no hero.
+  hero_image_indexes: number[];
+  note?: string;
+}
+
+export interface EvalThresholds {
+  maxScoreMae: number;
+  minCategoryPrecision: number;
+  minCategoryRecall: number;
+  minAudienceAccuracy: number;
+  minHeroHitRate: number;
+  minValidRate: number;
+}
+
+export const DEFAULT_EVAL_THRESHOLDS: EvalThresholds = {
+  maxScoreMae: 0.5,
+  minCategoryPrecision: 0.8,
+  minCategoryRecall: 0.8,
+  minAudienceAccuracy: 0.8,
+  minHeroHitRate: 0.6,
+  minValidRate: 1,
+};
+
+export interface OfferEvaluation {
+  activity_id: string;
+  valid: boolean;
+  score: number | null;
+  expected_score: { min: number; max: number };
+  // Distance from the score to the nearest end of the expected range; 0 inside it.
+  score_error: number | null;
+  missing_categories: string[];
+  extra_categories: string[];
+  missing_audiences: string[];
+  extra_audiences: string[];
+  // Share of the audience yes/no decisions that match the labels.
+  audience_accuracy: number | null;
+  hero_original_index: number | null;
+  hero_hit: boolean | null;
+}
+
+export interface EvalMetrics {
+  offers: number;
+  valid_rate: number;
+  score_mae: number | null;
+  category_precision: number | null;
+  category_recall: number | null;
+  audience_accuracy: number | null;
+  hero_hit_rate: number | null;
+}
+
+export interface EvalReport {
+  metrics: EvalMetrics;
+  thresholds: EvalThresholds;
+  // One message per threshold crossed; empty when the run passes.
+  failures: string[];
+  // Gold entries with no matching offer in the offers directory.
+  missing_offers: string[];
+  offers: OfferEvaluation[];
+}
+
+// --- Section: Gold set file ---
+function isScore(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 5;
+}
+
+function parseGoldEntry(raw: any, position: string): GoldEntry {
+  const fail = (message: string): never => {
+    throw new Error(`Gold entry ${position}: ${message}`);
+  };
+  if (!raw || typeof raw !== 'object') {
+    fail('must be an object.');
+  }
+  const activityId = String(raw.activity_id ?? '').trim();
+  if (!/^\d+$/.test(activityId)) {
+    fail('activity_id must be a numeric Klook activity ID.');
+  }
+  const score = raw.score;
+  if (!score || !isScore(score.min) || !isScore(score.max) || score.min > score.max) {
+    fail('score must be { "min": <0-5>, "max": <0-5> } with min <= max.');
+  }
+  const list = (value: unknown, allowed: string[], field: string): string[] => {
+    if (!Array.isArray(value) || value.some((item) => !allowed.includes(item))) {
+      fail(`${field} must be an array of values from taxonomy.ts.`);
+    }
+    return [...new Set(value as string[])];
+  };
+  const heroes = raw.hero_image_indexes;
+  if (!Array.isArray(heroes) || heroes.some((index) => !Number.isInteger(index) || index < 1)) {
+    fail('hero_image_indexes must be an array of 1-based Klook image positions (empty for "no hero").');
+  }
+  return {
+    activity_id: activityId,
+    score: { min: score.min, max: score.max },
+    categories: list(raw.categories, CATEGORY_LEAVES, 'categories'),
+    target_audiences: list(raw.target_audiences, TARGET_AUDIENCES, 'target_audiences'),
+    hero_image_indexes: heroes,
+    ...(typeof raw.note === 'string' && raw.note ? { note: raw.note } : {}),
+  };
+}
+
+export async function loadGoldSet(filePath: string): Promise<GoldEntry[]> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Failed to read gold set ${filePath}: ${error?.message || error}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Gold set ${filePath} must contain a JSON array of entries.`);
+  }
+  const entries = parsed.map((raw, index) => parseGoldEntry(raw, `#${index + 1} in ${filePath}`));
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    if (seen.has(entry.activity_id)) {
+      throw new Error(`Gold set ${filePath} lists activity ${entry.activity_id} more than once.`);
+    }
+    seen.add(entry.activity_id);
+  }
+  return entries;
+}
+
+// --- Section: Scoring one offer ---
+/**
+ * Position of the model's hero in Klook's original image order, read from the image analysis that ranked
+ * the offer's images; falls back to the position in the offer's list when the offer was not ranked.
+ */
+function heroOriginalIndex(result: GradingResult, offer: StructuredOffer): number | null {
+  if (!result.hero_image_url) {
+    return null;
+  }
+  const position = offer.image_details.findIndex((image) => image.url === result.hero_image_url);
+  if (position < 0) {
+    return null;
+  }
+  return offer.image_details[position].analysis?.original_index ?? position + 1;
+}
+
+export function evaluateOffer(gold: GoldEntry, result: GradingResult, offer: StructuredOffer): OfferEvaluation {
+  const valid = result.valid && result.score != null;
+  const score = valid ? result.score : null;
+  let scoreError: number | null = null;
+  if (score != null) {
+    scoreError = score < gold.score.min ? gold.score.min - score : score > gold.score.max ? score - gold.score.max : 0;
+  }
+
+  const audienceMatches = TARGET_AUDIENCES.filter(
+    (audience) => gold.target_audiences.includes(audience) === result.target_audiences.includes(audience)
+  ).length;
+  const heroIndex = valid ? heroOriginalIndex(result, offer) : null;
+  let heroHit: boolean | null = null;
+  if (valid) {
+    heroHit = gold.hero_image_indexes.length
+      ? heroIndex != null && gold.hero_image_indexes.includes(heroIndex)
+      : result.hero_image_url == null;
+  }
+
+  return {
+    activity_id: gold.activity_id,
+    valid,
+    score,
+    expected_score: gold.score,
+    score_error: scoreError,
+    missing_categories: valid ? gold.categories.filter((leaf) => !result.categories.includes(leaf)) : [],
+    extra_categories: valid ? result.categories.filter((leaf) => !gold.categories.includes(leaf)) : [],
+    missing_audiences: valid ? gold.target_audiences.filter((item) => !result.target_audiences.includes(item)) : [],
+    extra_audiences: valid ? result.target_audiences.filter((item) => !gold.target_audiences.includes(item)) : [],
+    audience_accuracy: valid ? Math.round((audienceMatches / TARGET_AUDIENCES.length) * 1000) / 1000 : null,
+    hero_original_index: heroIndex,
+    hero_hit: heroHit,
+  };
+}
+
+// --- Section: Aggregate metrics and thresholds ---
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator ? Math.round((numerator / denominator) * 1000) / 1000 : null;
+}
+
+/**
+ * Category precision and recall are micro-averaged over every leaf label; invalid grades count against the
+ * valid rate only, so one failed call does not also skew the quality metrics.
+ */
+export function summariseEvaluations(evaluations: OfferEvaluation[], gold: GoldEntry[]): EvalMetrics {
+  const byId = new Map(gold.map((entry) => [entry.activity_id, entry]));
+  const valid = evaluations.filter((evaluation) => evaluation.valid);
+  let truePositives = 0;
+  let predicted = 0;
+  let expected = 0;
+  for (const evaluation of valid) {
+    const labels = byId.get(evaluation.activity_id)?.categories ?? [];
+    const hits = labels.length - evaluation.missing_categories.length;
+    truePositives += hits;
+    predicted += hits + evaluation.extra_categories.length;
+    expected += labels.length;
+  }
+  const total = (values: Array<number | boolean | null>) =>
+    values.reduce<number>((sum, value) => sum + Number(value ?? 0), 0);
+
+  return {
+    offers: evaluations.length,
+    valid_rate: ratio(valid.length, evaluations.length) ?? 0,
+    score_mae: ratio(total(valid.map((evaluation) => evaluation.score_error)), valid.length),
+    category_precision: ratio(truePositives, predicted),
+    category_recall: ratio(truePositives, expected),
+    audience_accuracy: ratio(total(valid.map((evaluation) => evaluation.audience_accuracy)), valid.length),
+    hero_hit_rate: ratio(total(valid.map((evaluation) => evaluation.hero_hit)), valid.length),
+  };
+}
+
+export function checkThresholds(metrics: EvalMetrics, thresholds: EvalThresholds): string[] {
+  const failures: string[] = [];
+  const atLeast = (name: string, value: number | null, limit: number) => {
+    if (value == null || value < limit) {
+      failures.push(`${name} ${value ?? 'n/a'} is below ${limit}`);
+    }
+  };
+  if (metrics.score_mae == null || metrics.score_mae > thresholds.maxScoreMae) {
+    failures.push(`score MAE ${metrics.score_mae ?? 'n/a'} is above ${thresholds.maxScoreMae}`);
+  }
+  atLeast('valid rate', metrics.valid_rate, thresholds.minValidRate);
+  atLeast('category precision', metrics.category_precision, thresholds.minCategoryPrecision);
+  atLeast('category recall', metrics.category_recall, thresholds.minCategoryRecall);
+  atLeast('audience accuracy', metrics.audience_accuracy, thresholds.minAudienceAccuracy);
+  atLeast('hero hit rate', metrics.hero_hit_rate, thresholds.minHeroHitRate);
+  return failures;
+}
+
+export function buildEvalReport(
+  gold: GoldEntry[],
+  results: GradingResult[],
+  offers: StructuredOffer[],
+  config: Pick<CurationConfig, 'evalThresholds'>
+): EvalReport {
+  const offersById = new Map(offers.map((offer) => [String(offer.activity_id ?? ''), offer]));
+  const resultsById = new Map(results.map((result) => [String(result.activity_id ?? ''), result]));
+  const evaluations: OfferEvaluation[] = [];
+  const missing: string[] = [];
+  for (const entry of gold) {
+    const offer = offersById.get(entry.activity_id);
+    const result = resultsById.get(entry.activity_id);
+    if (!offer || !result) {
+      missing.push(entry.activity_id);
+      continue;
+    }
+    evaluations.push(evaluateOffer(entry, result, offer));
+  }
+  const metrics = summariseEvaluations(evaluations, gold);
+  const failures = checkThresholds(metrics, config.evalThresholds);
+  if (missing.length) {
+    failures.push(`${missing.length} gold offers were not evaluated`);
+  }
+  return {
+    metrics,
+    thresholds: config.evalThresholds,
+    failures,
+    missing_offers: missing,
+    offers: evaluations,
+  };
+}
+
+/**
+ * Grades every gold offer with the configured provider, prompt version and settings. The grading cache is
+ * neither read nor written, so the metrics always reflect the current configuration.
+ */
+export async function runEvaluation(config: CurationConfig, gold: GoldEntry[]): Promise<EvalReport> {
+  const ids = new Set(gold.map((entry) => entry.activity_id));
+  const offers = (await loadOffers(config.offersDir, config.locale)).filter((offer) =>
+    ids.has(String(offer.activity_id ?? ''))
+  );
+  const ranked = await rankImagesForOffers(offers, config);
+  const provider = createGradingProvider(config);
+  log.info('eval_started', `Evaluating ${ranked.length} gold offers with ${provider.name}.`, {
+    offers: ranked.length,
+    provider: provider.name,
+    prompt_version: config.promptVersion,
+  });
+  const results = await gradeOffers(ranked, provider, config);
+  return buildEvalReport(gold, results, ranked, config);
+}
+
+// --- Section: Console report ---
+export function describeEvaluation(evaluation: OfferEvaluation): string {
+  if (!evaluation.valid) {
+    return `${evaluation.activity_id}: invalid grade`;
+  }
+  const { min, max } = evaluation.expected_score;
+  const range = min === max ? `${min}` : `${min}-${max}`;
+  const parts = [`score ${evaluation.score} (expected ${range})${evaluation.score_error ? ' MISS' : ''}`];
+  const diff = (label: string, missing: string[], extra: string[]) => {
+    const changes = [...missing.map((item) => `-${item}`), ...extra.map((item) => `+${item}`)];
+    parts.push(`${label} ${changes.length ? changes.join(', ') : 'ok'}`);
+  };
+  diff('categories', evaluation.missing_categories, evaluation.extra_categories);
+  diff('audiences', evaluation.missing_audiences, evaluation.extra_audiences);
+  const hero = evaluation.hero_original_index == null ? 'none' : `klook#${evaluation.hero_original_index}`;
+  parts.push(`hero ${hero} ${evaluation.hero_hit ? 'ok' : 'MISS'}`);
+  return `${evaluation.activity_id}: ${parts.join('; ')}`;
+}
+
+export function formatEvalReport(report: EvalReport): string {
+  const { metrics } = report;
+  const lines = report.offers.map(describeEvaluation);
+  if (report.missing_offers.length) {
+    lines.push(`Not evaluated (offer or grade missing): ${report.missing_offers.join(', ')}`);
+  }
+  lines.push(
+    '',
+    `${metrics.offers} offers: valid rate ${metrics.valid_rate}, score MAE ${metrics.score_mae ?? 'n/a'}, ` +
+      `category precision ${metrics.category_precision ?? 'n/a'} / recall ${metrics.category_recall ?? 'n/a'}, ` +
+      `audience accuracy ${metrics.audience_accuracy ?? 'n/a'}, hero hit rate ${metrics.hero_hit_rate ?? 'n/a'}.`
+  );
+  lines.push(report.failures.length ? `FAILED: ${report.failures.join('; ')}.` : 'All thresholds met.');
+  return lines.join('\n');
+}
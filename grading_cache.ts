@@ -0,0 +1,141 @@
+/**
+ * grading_cache.ts
+ *
+ * Append-only JSONL store of grading results so runs can resume and unchanged offers are not paid for
+ * twice. Entries are keyed by activity_id plus a hash of everything sent to the model, so editing an
+ * offer or the system prompt only invalidates the entries it actually affects.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { GradingRequest } from './grading_providers.js';
+import type { GradingResult } from './offer_curation.js';
+import { log } from './run_log.js';
+
+export interface GradingCacheSettings {
+  provider: string;
+  reasoning_effort: string;
+  max_output_tokens: number;
+  // Reasoning effort of each ensemble pass; absent for single-pass grading, so those keys are unchanged.
+  ensemble?: string;
+}
+
+// What a cached grade was made from, so a later run can tell offer changes apart from setting changes.
+export interface CacheProvenance {
+  // offer_snapshots.ts hash of the offer version that was graded.
+  snapshot_hash?: string;
+  // computeSettingsKey of the system prompt and model settings.
+  settings_key?: string;
+}
+
+export interface CacheEntry extends CacheProvenance {
+  activity_id: string;
+  cache_key: string;
+  graded_at: string;
+  result: GradingResult;
+}
+
+export interface GradingCache {
+  readonly size: number;
+  get(activityId: string, cacheKey: string): GradingResult | null;
+  // Most recently stored entry for the offer under any key; entries cached before provenance have none.
+  latest(activityId: string): CacheEntry | null;
+  put(activityId: string, cacheKey: string, result: GradingResult, provenance?: CacheProvenance): Promise<void>;
+}
+
+/**
+ * Hashes the offer prompt, image URLs, system prompt and model settings. Request metadata is excluded
+ * because it does not influence the grade.
+ */
+export function computeCacheKey(request: GradingRequest, settings: GradingCacheSettings): string {
+  const material = JSON.stringify({
+    instructions: request.instructions,
+    prompt: request.prompt,
+    images: request.images,
+    settings,
+  });
+  return crypto.createHash('sha256').update(material).digest('hex');
+}
+
+/**
+ * Hashes only the system prompt and model settings: two grades with the same settings key differ only in
+ * the offer they were given.
+ */
+export function computeSettingsKey(instructions: string, settings: GradingCacheSettings): string {
+  const material = JSON.stringify({ instructions, settings });
+  return crypto.createHash('sha256').update(material).digest('hex');
+}
+
+function entryId(activityId: string, cacheKey: string): string {
+  return `${activityId}:${cacheKey}`;
+}
+
+/**
+ * Loads the cache file (missing is fine) and returns a handle that appends new results as they land.
+ * A torn final line from an interrupted run is skipped rather than treated as fatal.
+ */
+export async function openGradingCache(filePath: string): Promise<GradingCache> {
+  const entries = new Map<string, GradingResult>();
+  const latest = new Map<string, CacheEntry>();
+
+  let content = '';
+  try {
+    content = await fs.promises.readFile(filePath, 'utf-8');
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      throw new Error(`Failed to read grading cache: ${filePath}`);
+    }
+  }
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    try {
+      const entry = JSON.parse(line) as CacheEntry;
+      entries.set(entryId(entry.activity_id, entry.cache_key), entry.result);
+      latest.set(entry.activity_id, entry);
+    } catch {
+      log.warn('cache_line_unreadable', `Ignoring unreadable grading cache line ${index + 1} in ${filePath}.`, {
+        file: filePath,
+        line: index + 1,
+      });
+    }
+  });
+
+  let directoryReady = false;
+
+  return {
+    get size() {
+      return entries.size;
+    },
+    get(activityId: string, cacheKey: string): GradingResult | null {
+      return entries.get(entryId(activityId, cacheKey)) ?? null;
+    },
+    latest(activityId: string): CacheEntry | null {
+      return latest.get(activityId) ?? null;
+    },
+    async put(
+      activityId: string,
+      cacheKey: string,
+      result: GradingResult,
+      provenance: CacheProvenance = {}
+    ): Promise<void> {
+      if (!directoryReady) {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        directoryReady = true;
+      }
+      const entry: CacheEntry = {
+        activity_id: activityId,
+        cache_key: cacheKey,
+        graded_at: new Date().toISOString(),
+        ...provenance,
+        result,
+      };
+      entries.set(entryId(activityId, cacheKey), result);
+      latest.set(activityId, entry);
+      await fs.promises.appendFile(filePath, `${JSON.stringify(entry)}\n`, 'utf-8');
+    },
+  };
+}
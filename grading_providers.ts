@@ -0,0 +1,210 @@
+/**
+ * grading_providers.ts
+ *
+ * Backends that turn a grading prompt plus image list into raw model text. The OpenAI Responses API is
+ * one adapter; the fixture provider replays canned JSON per activity_id so the pipeline runs offline.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { OpenAI } from 'openai';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const OPENAI_API_KEY_ENV = 'OPENAI_API_KEY';
+const ENV_PRIORITIES = ['.env', '.openai_api_key'];
+
+// --- Section: Provider contract shared by every grading backend ---
+export interface GradingRequest {
+  activity_id: string;
+  instructions: string;
+  prompt: string;
+  images: string[];
+  metadata: Record<string, string>;
+  // Overrides the provider's reasoning effort for this call (ensemble passes, ensemble.ts).
+  reasoning_effort?: 'minimal' | 'low' | 'medium' | 'high';
+}
+
+export interface TokenUsage {
+  input_tokens: number;
+  cached_input_tokens: number;
+  // Includes reasoning_tokens, as in the Responses API.
+  output_tokens: number;
+  reasoning_tokens: number;
+}
+
+export interface GradingResponse {
+  text: string;
+  response_id: string | null;
+  // Number of underlying API calls made, including retries. Omitted means one.
+  attempts?: number;
+  // Omitted by backends that do not report usage, such as fixture replay.
+  usage?: TokenUsage | null;
+}
+
+export interface GradingProvider {
+  name: string;
+  grade(request: GradingRequest): Promise<GradingResponse>;
+}
+
+export interface OpenAIProviderOptions {
+  model: string;
+  reasoningEffort: 'minimal' | 'low' | 'medium' | 'high';
+  maxOutputTokens: number;
+}
+
+// --- Section: Utility functions for environment discovery ---
+function loadApiKeyFromFile(candidatePath: string): string | undefined {
+  try {
+    const content = fs.readFileSync(candidatePath, 'utf-8');
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#') || !line.includes('=')) {
+        continue;
+      }
+      const [key, value] = line.split('=', 2);
+      if (key.trim() === OPENAI_API_KEY_ENV) {
+        return value.trim().replace(/^"|"$/g, '');
+      }
+    }
+  } catch (error) {
+    // Silently ignore missing files; higher priority sources may exist.
+  }
+  return undefined;
+}
+
+function loadApiKey(): string {
+  const envValue = process.env[OPENAI_API_KEY_ENV];
+  if (envValue && envValue.trim()) {
+    return envValue.trim();
+  }
+
+  for (const candidate of ENV_PRIORITIES) {
+    const candidatePath = path.resolve(__dirname, candidate);
+    const key = loadApiKeyFromFile(candidatePath);
+    if (key) {
+      return key;
+    }
+  }
+
+  throw new Error(
+    'OpenAI API key not found. Set OPENAI_API_KEY, or define it inside a local .env/.openai_api_key file.'
+  );
+}
+
+// Lazily instantiate the OpenAI client so we only load credentials when we need them.
+let cachedClient: OpenAI | null = null;
+function getClient(): OpenAI {
+  if (!cachedClient) {
+    const apiKey = loadApiKey();
+    // Retries are owned by retry_policy.ts so they share backoff and the adaptive limiter.
+    cachedClient = new OpenAI({ apiKey, maxRetries: 0 });
+  }
+  return cachedClient;
+}
+
+// --- Section: OpenAI Responses API adapter ---
+function collectResponseText(response: any): string {
+  const payload = typeof response?.toJSON === 'function' ? response.toJSON() : response;
+  const chunks: string[] = [];
+  const outputItems = payload?.output || [];
+
+  for (const item of outputItems) {
+    const contents = item?.content || [];
+    for (const content of contents) {
+      if (content?.type === 'output_text' && typeof content?.text === 'string') {
+        chunks.push(content.text);
+      }
+    }
+  }
+
+  return chunks.join('').trim();
+}
+
+function collectUsage(response: any): TokenUsage | null {
+  const usage = response?.usage;
+  if (!usage) {
+    return null;
+  }
+  return {
+    input_tokens: Number(usage.input_tokens) || 0,
+    cached_input_tokens: Number(usage.input_tokens_details?.cached_tokens) || 0,
+    output_tokens: Number(usage.output_tokens) || 0,
+    reasoning_tokens: Number(usage.output_tokens_details?.reasoning_tokens) || 0,
+  };
+}
+
+export function createOpenAIProvider(options: OpenAIProviderOptions): GradingProvider {
+  return {
+    name: `openai:${options.model}`,
+    async grade(request: GradingRequest): Promise<GradingResponse> {
+      const client = getClient();
+      const content = [
+        { type: 'input_text' as const, text: request.prompt },
+        ...request.images.map((url) => ({ type: 'input_image' as const, image_url: url, detail: 'auto' as const })),
+      ];
+
+      const response = await client.responses.create({
+        model: options.model,
+        instructions: request.instructions,
+        input: [{ role: 'user', content }],
+        reasoning: { effort: request.reasoning_effort ?? options.reasoningEffort },
+        max_output_tokens: options.maxOutputTokens,
+        metadata: request.metadata,
+      });
+
+      return {
+        text: collectResponseText(response),
+        response_id: typeof response?.id === 'string' ? response.id : null,
+        usage: collectUsage(response),
+      };
+    },
+  };
+}
+
+// --- Section: Offline fixture replay and recording ---
+function fixturePath(directory: string, activityId: string, pass?: string): string {
+  const safeId = activityId.replace(/[^A-Za-z0-9_-]/g, '_') || 'unknown';
+  return path.join(directory, pass ? `${safeId}.pass${pass}.json` : `${safeId}.json`);
+}
+
+/**
+ * Replays the raw model output stored at `<directory>/<activity_id>.json`. No network is touched, so the
+ * full grading and export flow can run in CI or without an API key. Ensemble passes read
+ * `<activity_id>.pass<n>.json` when it exists.
+ */
+export function createFixtureProvider(directory: string): GradingProvider {
+  return {
+    // No directory in the name: it is part of the cache key and run manifests, which must not depend on the checkout.
+    name: 'fixture',
+    async grade(request: GradingRequest): Promise<GradingResponse> {
+      const passPath = fixturePath(directory, request.activity_id, request.metadata.ensemble_pass);
+      const filePath = fs.existsSync(passPath) ? passPath : fixturePath(directory, request.activity_id);
+      let text: string;
+      try {
+        text = await fs.promises.readFile(filePath, 'utf-8');
+      } catch (error) {
+        throw new Error(`No grading fixture for activity ${request.activity_id} at ${filePath}`);
+      }
+      return { text: text.trim(), response_id: null };
+    },
+  };
+}
+
+/**
+ * Wraps another provider and saves each raw response as a fixture so a live run can be replayed later.
+ */
+export function createRecordingProvider(inner: GradingProvider, directory: string): GradingProvider {
+  return {
+    name: `record:${inner.name}`,
+    async grade(request: GradingRequest): Promise<GradingResponse> {
+      const response = await inner.grade(request);
+      await fs.promises.mkdir(directory, { recursive: true });
+      const filePath = fixturePath(directory, request.activity_id, request.metadata.ensemble_pass);
+      await fs.promises.writeFile(filePath, `${response.text}\n`, 'utf-8');
+      return response;
+    },
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * grading_queue.ts
+ *
+ * Durable queue of offers received by the intake service (intake_service.ts) and waiting to be graded. The
+ * queue is an append-only JSONL log, `.grading_queue.jsonl` by default: an `enqueued` line carries the Klook
+ * payload, and a `finished` line records how the entry ended. Entries with no `finished` line are pending, so
+ * a restarted service picks up where it stopped.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { JsonValue } from './offer_curation.js';
+import { log } from './run_log.js';
+
+export type QueueState = 'pending' | 'graded' | 'failed' | 'skipped' | 'superseded';
+export const QUEUE_STATES: QueueState[] = ['pending', 'graded', 'failed', 'skipped', 'superseded'];
+
+export interface QueuedOffer {
+  id: string;
+  // offerKey() of the offer: the activity ID, suffixed `@<locale>` outside DEFAULT_LOCALE.
+  offer_key: string;
+  activity_id: string;
+  locale: string;
+  // hashSnapshot() of the offer content that grading and the re-grade policy look at.
+  content_hash: string;
+  // Where the offer came from, e.g. "webhook" or the queue message file, and the offer file written for it.
+  source: string;
+  offer_path: string;
+  received_at: string;
+  payload: JsonValue;
+}
+
+interface EnqueuedRecord extends QueuedOffer {
+  type: 'enqueued';
+}
+
+interface FinishedRecord {
+  type: 'finished';
+  id: string;
+  state: Exclude<QueueState, 'pending'>;
+  detail: string;
+  finished_at: string;
+}
+
+export interface GradingQueue {
+  // Pending entries, oldest first.
+  pending(): QueuedOffer[];
+  stateOf(id: string): QueueState | null;
+  counts(): Record<QueueState, number>;
+  /**
+   * The offer's latest entry when it holds the same content and was not a failed grade, so receiving it again
+   * would only repeat work.
+   */
+  findDuplicate(offerKey: string, contentHash: string): QueuedOffer | null;
+  // Appends a pending entry; any earlier pending entry for the same offer is finished as superseded.
+  enqueue(entry: Omit<QueuedOffer, 'id' | 'received_at'>): Promise<QueuedOffer>;
+  finish(id: string, state: Exclude<QueueState, 'pending'>, detail?: string): Promise<void>;
+}
+
+// --- Section: Queue file ---
+/**
+ * Loads the queue log (missing is fine) and returns a handle that appends to it. A torn final line from an
+ * interrupted run is skipped rather than treated as fatal.
+ */
+export async function openGradingQueue(filePath: string): Promise<GradingQueue> {
+  const entries = new Map<string, QueuedOffer>();
+  const states = new Map<string, QueueState>();
+  const byOffer = new Map<string, string[]>();
+
+  let content = '';
+  try {
+    content = await fs.promises.readFile(filePath, 'utf-8');
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      throw new Error(`Failed to read grading queue: ${filePath}`);
+    }
+  }
+
+  const remember = (record: EnqueuedRecord | FinishedRecord) => {
+    if (record.type === 'enqueued') {
+      const { type: _type, ...entry } = record;
+      entries.set(entry.id, entry);
+      states.set(entry.id, 'pending');
+      byOffer.set(entry.offer_key, [...(byOffer.get(entry.offer_key) ?? []), entry.id]);
+    } else if (entries.has(record.id)) {
+      states.set(record.id, record.state);
+    }
+  };
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    try {
+      remember(JSON.parse(line));
+    } catch {
+      log.warn('queue_line_unreadable', `Ignoring unreadable grading queue line ${index + 1} in ${filePath}.`, {
+        file: filePath,
+        line: index + 1,
+      });
+    }
+  });
+
+  let directoryReady = false;
+  const append = async (record: EnqueuedRecord | FinishedRecord) => {
+    if (!directoryReady) {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      directoryReady = true;
+    }
+    remember(record);
+    await fs.promises.appendFile(filePath, `${JSON.stringify(record)}\n`, 'utf-8');
+  };
+
+  const finish = async (id: string, state: Exclude<QueueState, 'pending'>, detail = '') => {
+    if (states.get(id) !== 'pending') {
+      return;
+    }
+    await append({ type: 'finished', id, state, detail, finished_at: new Date().toISOString() });
+  };
+
+  return {
+    pending(): QueuedOffer[] {
+      return [...entries.values()].filter((entry) => states.get(entry.id) === 'pending');
+    },
+    stateOf(id: string): QueueState | null {
+      return states.get(id) ?? null;
+    },
+    counts(): Record<QueueState, number> {
+      const counts = Object.fromEntries(QUEUE_STATES.map((state) => [state, 0])) as Record<QueueState, number>;
+      states.forEach((state) => {
+        counts[state] += 1;
+      });
+      return counts;
+    },
+    findDuplicate(offerKey: string, contentHash: string): QueuedOffer | null {
+      const ids = byOffer.get(offerKey) ?? [];
+      const latest = ids.length ? entries.get(ids[ids.length - 1]) : undefined;
+      if (!latest || latest.content_hash !== contentHash || states.get(latest.id) === 'failed') {
+        return null;
+      }
+      return latest;
+    },
+    async enqueue(entry: Omit<QueuedOffer, 'id' | 'received_at'>): Promise<QueuedOffer> {
+      for (const id of byOffer.get(entry.offer_key) ?? []) {
+        await finish(id, 'superseded', 'A newer version of the offer was received.');
+      }
+      const queued: QueuedOffer = {
+        id: crypto.randomBytes(6).toString('hex'),
+        ...entry,
+        received_at: new Date().toISOString(),
+      };
+      await append({ type: 'enqueued', ...queued });
+      return queued;
+    },
+    finish,
+  };
+}
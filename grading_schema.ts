@@ -0,0 +1,172 @@
+/**
+ * grading_schema.ts
+ *
+ * Strict schema for the JSON object the grading model returns. Parsing never guesses: output that is not
+ * a single JSON object matching the taxonomy and image list is rejected with readable validation errors,
+ * which are fed back to the model in a repair request.
+ */
+
+import { CATEGORY_LEAVES, TARGET_AUDIENCES } from './taxonomy.js';
+
+// --- Section: Validated output shape ---
+export interface GradingOutput {
+  score: number;
+  categories: string[];
+  target_audiences: string[];
+  hero_image_index: number | null;
+  hero_image_url: string | null;
+  hero_image_reason: string;
+  reason: string;
+}
+
+export interface ValidationOutcome {
+  output: GradingOutput | null;
+  errors: string[];
+}
+
+// --- Section: Parsing and validation ---
+export function parseStrictJson(text: string): { value: unknown; error?: string } {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return { value: null, error: 'Response was empty; expected a JSON object.' };
+  }
+
+  // Models occasionally wrap the object in a ```json fence; that is the only wrapper we tolerate.
+  const fenced = trimmed.match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/i);
+  const candidate = fenced ? fenced[1] : trimmed;
+
+  try {
+    return { value: JSON.parse(candidate) };
+  } catch (error: any) {
+    return { value: null, error: `Response is not valid JSON (${error?.message || error}).` };
+  }
+}
+
+function validateStringList(
+  value: unknown,
+  key: string,
+  allowed: readonly string[],
+  allowedLabel: string,
+  errors: string[]
+): string[] {
+  if (!Array.isArray(value)) {
+    errors.push(`"${key}" must be an array of strings.`);
+    return [];
+  }
+
+  const items: string[] = [];
+  for (const item of value) {
+    if (typeof item !== 'string') {
+      errors.push(`"${key}" contains a non-string value: ${JSON.stringify(item)}.`);
+      continue;
+    }
+    const trimmed = item.trim();
+    if (!allowed.includes(trimmed)) {
+      errors.push(`"${key}" contains "${trimmed}", which is not ${allowedLabel}.`);
+      continue;
+    }
+    if (!items.includes(trimmed)) {
+      items.push(trimmed);
+    }
+  }
+  return items;
+}
+
+/**
+ * Validates raw model text against the grading schema. `imageCount` is the number of images listed in the
+ * prompt, which bounds `hero_image_index`.
+ */
+export function validateGradingOutput(text: string, imageCount: number): ValidationOutcome {
+  const { value, error } = parseStrictJson(text);
+  if (error) {
+    return { output: null, errors: [error] };
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { output: null, errors: ['Response must be a single JSON object.'] };
+  }
+
+  const parsed = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const score = parsed.score;
+  if (typeof score !== 'number' || !Number.isInteger(score) || score < 0 || score > 5) {
+    errors.push(`"score" must be an integer from 0 to 5, got ${JSON.stringify(score)}.`);
+  }
+
+  const categories = validateStringList(
+    parsed.categories,
+    'categories',
+    CATEGORY_LEAVES,
+    'a leaf category from the Categories list',
+    errors
+  );
+  const targetAudiences = validateStringList(
+    parsed.target_audiences,
+    'target_audiences',
+    TARGET_AUDIENCES,
+    `one of ${TARGET_AUDIENCES.join(', ')}`,
+    errors
+  );
+
+  const heroIndex = parsed.hero_image_index ?? null;
+  if (heroIndex !== null) {
+    if (typeof heroIndex !== 'number' || !Number.isInteger(heroIndex)) {
+      errors.push(`"hero_image_index" must be an integer or null, got ${JSON.stringify(heroIndex)}.`);
+    } else if (heroIndex < 1 || heroIndex > imageCount) {
+      errors.push(
+        imageCount
+          ? `"hero_image_index" must be between 1 and ${imageCount}, got ${heroIndex}.`
+          : `"hero_image_index" must be null because no images were supplied, got ${heroIndex}.`
+      );
+    }
+  }
+
+  const heroUrl = parsed.hero_image_url ?? null;
+  if (heroUrl !== null && typeof heroUrl !== 'string') {
+    errors.push(`"hero_image_url" must be a string or null, got ${JSON.stringify(heroUrl)}.`);
+  }
+
+  const heroReason = parsed.hero_image_reason ?? '';
+  if (typeof heroReason !== 'string') {
+    errors.push('"hero_image_reason" must be a string.');
+  }
+
+  const reason = parsed.reason;
+  if (typeof reason !== 'string' || !reason.trim()) {
+    errors.push('"reason" must be a non-empty string.');
+  }
+
+  if (errors.length) {
+    return { output: null, errors };
+  }
+
+  return {
+    output: {
+      score: score as number,
+      categories,
+      target_audiences: targetAudiences,
+      hero_image_index: heroIndex as number | null,
+      hero_image_url: typeof heroUrl === 'string' && heroUrl.trim() ? heroUrl.trim() : null,
+      hero_image_reason: (heroReason as string).trim(),
+      reason: (reason as string).trim(),
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Builds the follow-up prompt asking the model to correct an invalid response.
+ */
+export function buildRepairPrompt(originalPrompt: string, previousText: string, errors: string[]): string {
+  return [
+    originalPrompt,
+    '',
+    'Your previous response could not be accepted:',
+    previousText || '(empty response)',
+    '',
+    'Validation errors:',
+    ...errors.map((error) => `- ${error}`),
+    '',
+    'Return only the corrected JSON object with every required key. Do not add commentary or code fences.',
+  ].join('\n');
+}
@@ -0,0 +1,321 @@
+/**
+ * image_analysis.ts
+ *
+ * Local inspection of offer images before grading. Nothing is downloaded: images are read from a local
+ * cache directory (one file per image, named after the last segment of the Klook URL), and offers whose
+ * images are not cached fall back to the width/height in the feed. Each image gets an aspect-ratio fit
+ * against the hero crop, a resolution check, a perceptual hash for near-duplicate detection and a text
+ * overlay/banner score. The scores pre-rank the candidates sent to the model and flag a hero that fails
+ * hard constraints.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import type { ImageDetail, StructuredOffer } from './offer_curation.js';
+import { errorFields, log } from './run_log.js';
+
+// Overlay scores at or above this are treated as a promotional banner, which can never be the hero.
+const OVERLAY_HARD_LIMIT = 0.6;
+const HASH_SIZE = 32;
+const HASH_BITS = 8;
+const OVERLAY_SAMPLE_WIDTH = 256;
+
+export interface ImageAnalysisOptions {
+  imageCacheDir: string;
+  heroAspectRatio: string;
+  maxHeroCropPercent: number;
+  minImageWidth: number;
+  minImageHeight: number;
+  phashDistance: number;
+}
+
+export interface ImageAnalysis {
+  // 'local' when a cached file was decoded; 'metadata' when only the feed's width/height were available.
+  source: 'local' | 'metadata';
+  // Position in the Klook image list (1-based) before ranking.
+  original_index: number;
+  width: number | null;
+  height: number | null;
+  aspect_ratio: number | null;
+  // Share of the image (0-1) cut away when cropping to the hero aspect ratio.
+  crop_loss: number | null;
+  meets_min_resolution: boolean | null;
+  phash: string | null;
+  // original_index of a better-ranked near-duplicate, if any.
+  duplicate_of: number | null;
+  // 0-1 heuristic: high values suggest text overlays or a banner graphic.
+  overlay_score: number | null;
+  hard_failures: string[];
+  rank_score: number;
+}
+
+interface DecodedImage {
+  width: number;
+  height: number;
+  phash: string;
+  overlay_score: number;
+}
+
+// --- Section: Local cache ---
+export function localImagePath(url: string, cacheDir: string): string | null {
+  let name: string;
+  try {
+    name = path.basename(new URL(url).pathname);
+  } catch {
+    return null;
+  }
+  return name ? path.join(cacheDir, name) : null;
+}
+
+export function parseAspectRatio(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*[:x/]\s*(\d+(?:\.\d+)?)$/);
+  if (!match || !Number(match[1]) || !Number(match[2])) {
+    throw new Error(`Aspect ratio "${value}" must look like 16:9.`);
+  }
+  return Number(match[1]) / Number(match[2]);
+}
+
+// --- Section: Pixel measurements ---
+function dct1d(values: number[]): number[] {
+  const size = values.length;
+  const result: number[] = new Array(size).fill(0);
+  for (let k = 0; k < size; k += 1) {
+    let sum = 0;
+    for (let n = 0; n < size; n += 1) {
+      sum += values[n] * Math.cos((Math.PI / size) * (n + 0.5) * k);
+    }
+    result[k] = sum;
+  }
+  return result;
+}
+
+/**
+ * DCT-based perceptual hash of a HASH_SIZE x HASH_SIZE greyscale thumbnail, returned as 16 hex digits.
+ */
+export function computePHash(pixels: Uint8Array | Buffer): string {
+  const rows: number[][] = [];
+  for (let y = 0; y < HASH_SIZE; y += 1) {
+    rows.push(dct1d(Array.from(pixels.subarray(y * HASH_SIZE, (y + 1) * HASH_SIZE))));
+  }
+  const coefficients: number[] = [];
+  const columns: number[][] = [];
+  for (let x = 0; x < HASH_BITS; x += 1) {
+    columns.push(dct1d(rows.map((row) => row[x])));
+  }
+  for (let y = 0; y < HASH_BITS; y += 1) {
+    for (let x = 0; x < HASH_BITS; x += 1) {
+      coefficients.push(columns[x][y]);
+    }
+  }
+
+  // The DC term only carries overall brightness, so it is left out of the median.
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  let hash = 0n;
+  for (const value of coefficients) {
+    hash = (hash << 1n) | (value > median ? 1n : 0n);
+  }
+  return hash.toString(16).padStart(16, '0');
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+/**
+ * Text and banner graphics show up as rows dense with sharp light/dark transitions and as large areas of
+ * flat, saturated colour. Photos rarely have either, so the mix of the two gives a rough 0-1 score.
+ */
+export function computeOverlayScore(pixels: Uint8Array | Buffer, width: number, height: number): number {
+  let textRows = 0;
+  let flatPixels = 0;
+  for (let y = 0; y < height; y += 1) {
+    let transitions = 0;
+    for (let x = 1; x < width; x += 1) {
+      const value = pixels[y * width + x];
+      if (Math.abs(value - pixels[y * width + x - 1]) > 64) {
+        transitions += 1;
+      }
+      if (value < 16 || value > 240) {
+        flatPixels += 1;
+      }
+    }
+    if (transitions / width > 0.1) {
+      textRows += 1;
+    }
+  }
+  const score = (textRows / height) * 2 + (flatPixels / (width * height)) * 0.5;
+  return Math.round(Math.min(1, score) * 100) / 100;
+}
+
+async function decodeImage(filePath: string): Promise<DecodedImage> {
+  const metadata = await sharp(filePath).metadata();
+  const thumbnail = await sharp(filePath).greyscale().resize(HASH_SIZE, HASH_SIZE, { fit: 'fill' }).raw().toBuffer();
+  const sample = await sharp(filePath)
+    .greyscale()
+    .resize({ width: OVERLAY_SAMPLE_WIDTH })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return {
+    width: metadata.width ?? 0,
+    height: metadata.height ?? 0,
+    phash: computePHash(thumbnail),
+    overlay_score: computeOverlayScore(sample.data, sample.info.width, sample.info.height),
+  };
+}
+
+// --- Section: Per-image analysis ---
+async function analyseImage(
+  image: ImageDetail,
+  index: number,
+  options: ImageAnalysisOptions,
+  heroRatio: number
+): Promise<ImageAnalysis> {
+  const filePath = image.url ? localImagePath(image.url, options.imageCacheDir) : null;
+  let decoded: DecodedImage | null = null;
+  if (filePath && fs.existsSync(filePath)) {
+    try {
+      decoded = await decodeImage(filePath);
+    } catch (error: any) {
+      log.warn('image_decode_failed', `Could not decode cached image ${filePath}.`, {
+        file: filePath,
+        ...errorFields(error),
+      });
+    }
+  }
+
+  // The feed describes the original upload; the cached copy may be a smaller rendition.
+  const width = image.width || decoded?.width || null;
+  const height = image.height || decoded?.height || null;
+  const aspectRatio = width && height ? width / height : null;
+  const cropLoss = aspectRatio ? 1 - Math.min(aspectRatio / heroRatio, heroRatio / aspectRatio) : null;
+  const meetsResolution =
+    width && height ? width >= options.minImageWidth && height >= options.minImageHeight : null;
+
+  const hardFailures: string[] = [];
+  if (meetsResolution === false) {
+    hardFailures.push(`${width}x${height} is below ${options.minImageWidth}x${options.minImageHeight}`);
+  }
+  if (cropLoss != null && cropLoss * 100 > options.maxHeroCropPercent) {
+    hardFailures.push(`hero crop ${options.heroAspectRatio} cuts ${Math.round(cropLoss * 100)}% of the image`);
+  }
+  if (decoded && decoded.overlay_score >= OVERLAY_HARD_LIMIT) {
+    hardFailures.push(`likely text overlay or banner (score ${decoded.overlay_score})`);
+  }
+
+  return {
+    source: decoded ? 'local' : 'metadata',
+    original_index: index + 1,
+    width,
+    height,
+    aspect_ratio: aspectRatio ? Math.round(aspectRatio * 100) / 100 : null,
+    crop_loss: cropLoss != null ? Math.round(cropLoss * 100) / 100 : null,
+    meets_min_resolution: meetsResolution,
+    phash: decoded?.phash ?? null,
+    duplicate_of: null,
+    overlay_score: decoded?.overlay_score ?? null,
+    hard_failures: hardFailures,
+    rank_score: 0,
+  };
+}
+
+function rankScore(image: ImageDetail, analysis: ImageAnalysis): number {
+  let score = 1;
+  score -= analysis.hard_failures.length * 0.5;
+  score -= (analysis.crop_loss ?? 0) * 0.5;
+  score -= (analysis.overlay_score ?? 0) * 0.4;
+  if ((image.type || '').toUpperCase() === 'BANNER') {
+    score -= 0.3;
+  }
+  if (analysis.duplicate_of != null) {
+    score -= 0.4;
+  }
+  return Math.round(score * 100) / 100;
+}
+
+// --- Section: Offer-level ranking ---
+/**
+ * Returns a copy of the offer with every image analysed and `image_details`/`images` re-ordered best
+ * candidate first. Ties keep Klook's order. Prompt numbering, hero indices and lint messages all follow
+ * the ranked order from here on.
+ */
+export async function rankOfferImages(offer: StructuredOffer, options: ImageAnalysisOptions): Promise<StructuredOffer> {
+  const heroRatio = parseAspectRatio(options.heroAspectRatio);
+  const analysed: Array<{ image: ImageDetail; analysis: ImageAnalysis }> = [];
+  for (const [index, image] of offer.image_details.entries()) {
+    analysed.push({ image, analysis: await analyseImage(image, index, options, heroRatio) });
+  }
+
+  // Score before de-duplication so the better copy of a near-duplicate pair is kept on top.
+  for (const entry of analysed) {
+    entry.analysis.rank_score = rankScore(entry.image, entry.analysis);
+  }
+  const byScore = [...analysed].sort((a, b) => b.analysis.rank_score - a.analysis.rank_score);
+  byScore.forEach((entry, position) => {
+    const hash = entry.analysis.phash;
+    if (!hash) {
+      return;
+    }
+    const better = byScore
+      .slice(0, position)
+      .find((other) => other.analysis.phash && hammingDistance(hash, other.analysis.phash) <= options.phashDistance);
+    if (better) {
+      entry.analysis.duplicate_of = better.analysis.original_index;
+      entry.analysis.rank_score = rankScore(entry.image, entry.analysis);
+    }
+  });
+
+  const ranked = [...analysed].sort((a, b) => b.analysis.rank_score - a.analysis.rank_score);
+  const imageDetails = ranked.map(({ image, analysis }) => ({ ...image, analysis }));
+  return {
+    ...offer,
+    image_details: imageDetails,
+    images: imageDetails.map((detail) => detail.url).filter((url): url is string => Boolean(url)),
+  };
+}
+
+export async function rankImagesForOffers(
+  offers: StructuredOffer[],
+  options: ImageAnalysisOptions
+): Promise<StructuredOffer[]> {
+  const ranked: StructuredOffer[] = [];
+  for (const offer of offers) {
+    ranked.push(await rankOfferImages(offer, options));
+  }
+  return ranked;
+}
+
+export function describeImageAnalysis(analysis: ImageAnalysis): string {
+  const parts = [
+    `klook#${analysis.original_index}`,
+    `aspect=${analysis.aspect_ratio ?? '?'}`,
+    `crop_loss=${analysis.crop_loss ?? '?'}`,
+    `overlay=${analysis.overlay_score ?? 'n/a'}`,
+  ];
+  if (analysis.duplicate_of != null) {
+    parts.push(`near-duplicate of klook#${analysis.duplicate_of}`);
+  }
+  if (analysis.hard_failures.length) {
+    parts.push(`FAILS: ${analysis.hard_failures.join('; ')}`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Hard-constraint failures for the image the model picked as hero; empty when the pick is acceptable or
+ * was not analysed.
+ */
+export function checkHeroImage(image: ImageDetail | undefined): string[] {
+  const analysis = image?.analysis;
+  if (!analysis) {
+    return [];
+  }
+  return analysis.hard_failures.map((failure) => `Hero image fails a hard constraint: ${failure}.`);
+}
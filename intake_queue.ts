@@ -0,0 +1,130 @@
+/**
+ * intake_queue.ts
+ *
+ * Message sources the intake service (intake_service.ts) consumes Klook offer payloads from, behind one small
+ * interface so a hosted queue can be added next to the file-based one. Each message body is the same
+ * `{success, activity}` envelope as an offer file. The file queue reads an inbox directory laid out like the
+ * offers directory: files at the top level are DEFAULT_LOCALE content, other locales go in a subdirectory
+ * named after the locale (`intake/zh_TW/107217.json`).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { CurationConfig } from './curation_config.js';
+import { DEFAULT_LOCALE, parseLocale } from './locales.js';
+
+export interface IntakeMessage {
+  id: string;
+  body: string;
+  locale: string;
+  // Where the message came from, recorded with the queued offer.
+  source: string;
+}
+
+export interface OfferQueue {
+  name: string;
+  // Claims up to `max` messages; claimed messages are not handed out again until released by a restart.
+  receive(max: number): Promise<IntakeMessage[]>;
+  // The message was handled (queued for grading or a duplicate) and can be dropped.
+  ack(message: IntakeMessage): Promise<void>;
+  // The message can never be accepted; `reason` says why.
+  reject(message: IntakeMessage, reason: string): Promise<void>;
+}
+
+const PROCESSING_DIR = '.processing';
+const REJECTED_DIR = 'rejected';
+// Claimed files are renamed `<locale>--<name>` so a restart can put them back where they came from.
+const CLAIM_SEPARATOR = '--';
+
+// --- Section: File queue ---
+async function listMessages(directory: string): Promise<Array<{ filePath: string; locale: string }>> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(directory, { withFileTypes: true });
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return [];
+    }
+    throw new Error(`Failed to read intake directory ${directory}: ${error?.message || error}`);
+  }
+  const files = (dir: string, names: fs.Dirent[], locale: string) =>
+    names
+      .filter((entry) => entry.isFile() && entry.name.toLowerCase().endsWith('.json'))
+      .map((entry) => ({ filePath: path.join(dir, entry.name), locale }))
+      .sort((a, b) => a.filePath.localeCompare(b.filePath));
+
+  const messages = files(directory, entries, DEFAULT_LOCALE);
+  for (const entry of entries.filter((item) => item.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+    const locale = parseLocale(entry.name);
+    if (locale === entry.name && locale !== DEFAULT_LOCALE) {
+      const localeDir = path.join(directory, entry.name);
+      messages.push(...files(localeDir, await fs.promises.readdir(localeDir, { withFileTypes: true }), locale));
+    }
+  }
+  return messages;
+}
+
+/**
+ * Consumes JSON files dropped into `directory`. A claimed file moves to `.processing/`; acknowledged files are
+ * deleted, and rejected ones move to `rejected/` with the reason in a `.txt` file beside them. Files left in
+ * `.processing/` by a stopped service are returned to the inbox when the queue is created.
+ */
+export async function createFileQueue(directory: string): Promise<OfferQueue> {
+  const processing = path.join(directory, PROCESSING_DIR);
+  await fs.promises.mkdir(processing, { recursive: true });
+
+  for (const name of await fs.promises.readdir(processing)) {
+    const [locale, ...rest] = name.split(CLAIM_SEPARATOR);
+    const targetDir = locale === DEFAULT_LOCALE ? directory : path.join(directory, locale);
+    await fs.promises.mkdir(targetDir, { recursive: true });
+    await fs.promises.rename(path.join(processing, name), path.join(targetDir, rest.join(CLAIM_SEPARATOR)));
+  }
+
+  return {
+    name: `file:${directory}`,
+    async receive(max: number): Promise<IntakeMessage[]> {
+      const messages: IntakeMessage[] = [];
+      for (const { filePath, locale } of (await listMessages(directory)).slice(0, max)) {
+        const claimed = path.join(processing, `${locale}${CLAIM_SEPARATOR}${path.basename(filePath)}`);
+        try {
+          await fs.promises.rename(filePath, claimed);
+        } catch (error: any) {
+          // Another consumer claimed it first.
+          if (error?.code === 'ENOENT') {
+            continue;
+          }
+          throw error;
+        }
+        messages.push({
+          id: claimed,
+          body: await fs.promises.readFile(claimed, 'utf-8'),
+          locale,
+          source: path.relative(directory, filePath),
+        });
+      }
+      return messages;
+    },
+    async ack(message: IntakeMessage): Promise<void> {
+      await fs.promises.rm(message.id, { force: true });
+    },
+    async reject(message: IntakeMessage, reason: string): Promise<void> {
+      const rejectedDir = path.join(directory, REJECTED_DIR);
+      await fs.promises.mkdir(rejectedDir, { recursive: true });
+      const target = path.join(rejectedDir, path.basename(message.source));
+      await fs.promises.rename(message.id, target);
+      await fs.promises.writeFile(`${target}.txt`, `${reason}\n`, 'utf-8');
+    },
+  };
+}
+
+// --- Section: Queue selection ---
+export async function createOfferQueue(config: CurationConfig): Promise<OfferQueue | null> {
+  switch (config.intakeQueue) {
+    case 'file':
+      return createFileQueue(config.intakeDir);
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unknown intake queue "${config.intakeQueue}". Expected file or none.`);
+  }
+}
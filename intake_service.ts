@@ -0,0 +1,338 @@
+/**
+ * intake_service.ts
+ *
+ * Service mode for receiving offers as they change instead of waiting for files to be copied into the offers
+ * directory. Klook activity payloads (the `{success, activity}` envelope of an offer file) arrive by HTTP POST
+ * or from an OfferQueue (intake_queue.ts). Each one is validated like an offer file, deduplicated by offer and
+ * content hash, written to the offers directory as `<activity_id>.json` and put on the durable grading queue
+ * (grading_queue.ts). Pending entries are graded in batches by `runGrading`, so they share the cache,
+ * snapshots, run manifests and `gradeOffers` worker pool with the `grade` command.
+ */
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import type { CurationConfig } from './curation_config.js';
+import { IngestionIssue, validateEnvelope } from './klook_schema.js';
+import { JsonValue, runGrading, StructuredOffer, structureActivity } from './offer_curation.js';
+import { hashSnapshot, snapshotOffer } from './offer_snapshots.js';
+import { DEFAULT_LOCALE, offerKey, parseLocale } from './locales.js';
+import { GradingQueue, openGradingQueue, QueuedOffer } from './grading_queue.js';
+import type { IntakeMessage, OfferQueue } from './intake_queue.js';
+import { errorFields, log } from './run_log.js';
+
+export type IntakeStatus = 'queued' | 'duplicate' | 'rejected';
+
+export interface IntakeOutcome {
+  status: IntakeStatus;
+  activity_id: string | null;
+  locale: string;
+  // Queue entry holding the offer: the new entry, or the earlier one a duplicate matched.
+  queue_id: string | null;
+  // Validation errors and warnings; info-level unknown fields are left out.
+  issues: IngestionIssue[];
+}
+
+export interface IntakeCycle {
+  received: IntakeOutcome[];
+  // Queue entries finished by grading in this cycle, by final state.
+  finished: Record<'graded' | 'failed' | 'skipped', number>;
+}
+
+export interface IntakeOptions {
+  host: string;
+  port: number;
+  // Bearer token every request must carry; null accepts any request.
+  token: string | null;
+}
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const MESSAGES_PER_RECEIVE = 50;
+
+// --- Section: Receiving offers ---
+function offerFilePath(offersDir: string, activityId: string, locale: string): string {
+  const directory = locale === DEFAULT_LOCALE ? offersDir : path.join(offersDir, locale);
+  return path.join(directory, `${activityId}.json`);
+}
+
+/**
+ * Validates one payload and queues it for grading unless the offer's latest queue entry already has the same
+ * content. The payload is written to the offers directory before it is queued, so `export`, `decide` and the
+ * dashboard see the offer too.
+ */
+export async function receiveOffer(
+  payload: unknown,
+  locale: string,
+  source: string,
+  config: CurationConfig,
+  queue: GradingQueue
+): Promise<IntakeOutcome> {
+  const { activity, report } = validateEnvelope(payload, source);
+  const issues = report.issues.filter((issue) => issue.severity !== 'info');
+  const activityId = report.activity_id != null ? String(report.activity_id) : null;
+  if (!activity || activityId == null) {
+    return { status: 'rejected', activity_id: activityId, locale, queue_id: null, issues };
+  }
+
+  const offerPath = offerFilePath(config.offersDir, activityId, locale);
+  const offer = structureActivity(activity, offerPath, locale);
+  const key = offerKey(offer);
+  const contentHash = hashSnapshot(snapshotOffer(offer));
+  const duplicate = queue.findDuplicate(key, contentHash);
+  if (duplicate) {
+    return { status: 'duplicate', activity_id: activityId, locale, queue_id: duplicate.id, issues };
+  }
+
+  // Written beside and renamed over the offer file, so `load` never reads half a file.
+  await fs.promises.mkdir(path.dirname(offerPath), { recursive: true });
+  await fs.promises.writeFile(`${offerPath}.tmp`, `${JSON.stringify(payload, null, 2)}\n`, 'utf-8');
+  await fs.promises.rename(`${offerPath}.tmp`, offerPath);
+
+  const queued = await queue.enqueue({
+    offer_key: key,
+    activity_id: activityId,
+    locale,
+    content_hash: contentHash,
+    source,
+    offer_path: offerPath,
+    payload: payload as JsonValue,
+  });
+  return { status: 'queued', activity_id: activityId, locale, queue_id: queued.id, issues };
+}
+
+function logIntakeOutcome(outcome: IntakeOutcome, source: string): void {
+  const fields = { activity_id: outcome.activity_id, locale: outcome.locale, source, queue_id: outcome.queue_id };
+  if (outcome.status === 'rejected') {
+    log.warn('intake_rejected', describeIntakeOutcome(outcome, source), { ...fields, issues: outcome.issues });
+  } else {
+    log.info(`intake_${outcome.status}`, describeIntakeOutcome(outcome, source), fields);
+  }
+}
+
+export function describeIntakeOutcome(outcome: IntakeOutcome, source: string): string {
+  const offer = outcome.activity_id ? `${outcome.activity_id} (${outcome.locale})` : 'unknown offer';
+  const errors = outcome.issues.filter((issue) => issue.severity === 'error');
+  const detail = errors.length ? `: ${errors.map((issue) => `${issue.path}: ${issue.message}`).join('; ')}` : '';
+  return `${source}: ${outcome.status} ${offer}${detail}`;
+}
+
+async function consumeMessage(
+  message: IntakeMessage,
+  source: OfferQueue,
+  config: CurationConfig,
+  queue: GradingQueue
+): Promise<IntakeOutcome> {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(message.body);
+  } catch (error: any) {
+    const issue: IngestionIssue = {
+      path: '$',
+      kind: 'malformed',
+      severity: 'error',
+      message: `Could not parse message (${error?.message || error}).`,
+    };
+    await source.reject(message, issue.message);
+    return { status: 'rejected', activity_id: null, locale: message.locale, queue_id: null, issues: [issue] };
+  }
+  const outcome = await receiveOffer(payload, message.locale, message.source, config, queue);
+  if (outcome.status === 'rejected') {
+    await source.reject(message, describeIntakeOutcome(outcome, message.source));
+  } else {
+    await source.ack(message);
+  }
+  return outcome;
+}
+
+// --- Section: Grading the queue ---
+/**
+ * Grades every pending entry, one `runGrading` batch per locale. Entries left out by the budget stay pending
+ * for the next cycle; entries whose status the filters exclude (CURATED by default) are skipped.
+ */
+export async function gradePending(
+  config: CurationConfig,
+  queue: GradingQueue
+): Promise<IntakeCycle['finished']> {
+  const finished = { graded: 0, failed: 0, skipped: 0 };
+  const byLocale = new Map<string, QueuedOffer[]>();
+  for (const entry of queue.pending()) {
+    byLocale.set(entry.locale, [...(byLocale.get(entry.locale) ?? []), entry]);
+  }
+
+  for (const [locale, entries] of byLocale) {
+    const offers: StructuredOffer[] = [];
+    for (const entry of entries) {
+      const { activity } = validateEnvelope(entry.payload, entry.offer_path);
+      if (activity) {
+        offers.push(structureActivity(activity, entry.offer_path, locale));
+      } else {
+        await queue.finish(entry.id, 'failed', 'Payload no longer passes validation.');
+        finished.failed += 1;
+      }
+    }
+
+    const { manifest } = await runGrading({ ...config, locale }, { offers });
+    const outcomes = new Map(manifest.offers.map((item) => [item.activity_id, item.outcome]));
+    for (const entry of entries.filter((item) => queue.stateOf(item.id) === 'pending')) {
+      const outcome = outcomes.get(entry.activity_id);
+      if (outcome === 'over_budget') {
+        continue;
+      }
+      if (outcome === 'graded' || outcome === 'cached') {
+        await queue.finish(entry.id, 'graded', outcome === 'cached' ? 'Matched a cached grade.' : '');
+        finished.graded += 1;
+      } else if (outcome === 'failed') {
+        await queue.finish(entry.id, 'failed', 'Model output never validated; receive the offer again to retry.');
+        finished.failed += 1;
+      } else {
+        await queue.finish(entry.id, 'skipped', 'Left out by the status filters.');
+        finished.skipped += 1;
+      }
+    }
+  }
+  return finished;
+}
+
+/**
+ * Takes every waiting message off `source` and then grades the pending queue.
+ */
+export async function runIntakeCycle(
+  config: CurationConfig,
+  queue: GradingQueue,
+  source: OfferQueue | null
+): Promise<IntakeCycle> {
+  const received: IntakeOutcome[] = [];
+  while (source) {
+    const messages = await source.receive(MESSAGES_PER_RECEIVE);
+    if (!messages.length) {
+      break;
+    }
+    for (const message of messages) {
+      const outcome = await consumeMessage(message, source, config, queue);
+      logIntakeOutcome(outcome, message.source);
+      received.push(outcome);
+    }
+  }
+  const finished = queue.pending().length ? await gradePending(config, queue) : { graded: 0, failed: 0, skipped: 0 };
+  return { received, finished };
+}
+
+// --- Section: HTTP endpoint ---
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(`${JSON.stringify(body, null, 2)}\n`);
+}
+
+// Resolves to null when the body is larger than MAX_BODY_BYTES.
+function readBody(req: http.IncomingMessage): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => resolve(size > MAX_BODY_BYTES ? null : Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Serves `POST /offers` (optionally `?locale=zh_TW`) and `GET /queue`, and runs an intake cycle every
+ * `intakePollSeconds` and after each queued offer. One cycle runs at a time; a request arriving during a
+ * cycle schedules another.
+ */
+export async function startIntakeService(
+  config: CurationConfig,
+  options: IntakeOptions,
+  source: OfferQueue | null
+): Promise<http.Server> {
+  const queue = await openGradingQueue(config.gradingQueuePath);
+  let running: Promise<void> | null = null;
+  let again = false;
+
+  const cycle = (): Promise<void> => {
+    if (running) {
+      again = true;
+      return running;
+    }
+    running = (async () => {
+      do {
+        again = false;
+        await runIntakeCycle(config, queue, source);
+      } while (again);
+    })()
+      .catch((error) => log.error('intake_cycle_failed', 'Intake cycle failed.', errorFields(error)))
+      .finally(() => {
+        running = null;
+      });
+    return running;
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    try {
+      if (options.token && req.headers.authorization !== `Bearer ${options.token}`) {
+        sendJson(res, 401, { error: 'Missing or wrong bearer token.' });
+        return;
+      }
+      if (req.method === 'GET' && url.pathname === '/queue') {
+        const pending = queue.pending().map(({ payload: _payload, ...entry }) => entry);
+        sendJson(res, 200, { counts: queue.counts(), pending });
+        return;
+      }
+      if (req.method !== 'POST' || url.pathname !== '/offers') {
+        sendJson(res, 404, { error: 'Not found. POST Klook activity payloads to /offers.' });
+        return;
+      }
+
+      const locale = parseLocale(url.searchParams.get('locale') ?? DEFAULT_LOCALE);
+      if (!locale) {
+        sendJson(res, 400, { error: `Unknown locale "${url.searchParams.get('locale')}".` });
+        return;
+      }
+      const body = await readBody(req);
+      if (body == null) {
+        sendJson(res, 413, { error: `Payload is larger than ${MAX_BODY_BYTES} bytes.` });
+        return;
+      }
+      let payload: unknown;
+      try {
+        payload = JSON.parse(body);
+      } catch (error: any) {
+        sendJson(res, 400, { error: `Could not parse payload (${error?.message || error}).` });
+        return;
+      }
+
+      const outcome = await receiveOffer(payload, locale, 'webhook', config, queue);
+      logIntakeOutcome(outcome, 'webhook');
+      sendJson(res, outcome.status === 'queued' ? 202 : outcome.status === 'duplicate' ? 200 : 422, outcome);
+      if (outcome.status === 'queued') {
+        void cycle();
+      }
+    } catch (error: any) {
+      log.error('intake_request_failed', `Intake request ${req.url} failed.`, errorFields(error));
+      sendJson(res, 500, { error: error?.message || String(error) });
+    }
+  });
+
+  const timer = setInterval(cycle, config.intakePollSeconds * 1000);
+  server.on('close', () => clearInterval(timer));
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      log.info(
+        'intake_listening',
+        `Intake listening on http://${options.host}:${options.port}/offers` +
+          (source ? `, consuming ${source.name}` : '') +
+          `; grading queue ${config.gradingQueuePath}`,
+        { host: options.host, port: options.port, queue: source?.name ?? null, grading_queue: config.gradingQueuePath }
+      );
+      void cycle();
+      resolve(server);
+    });
+  });
+}
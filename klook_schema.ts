@@ -0,0 +1,436 @@
+/**
+ * klook_schema.ts
+ *
+ * Typed model of the Klook activity payloads we receive in `offers/`, plus a validation pass that checks
+ * each file against it. Validation produces a per-file ingestion report of missing, malformed and unknown
+ * fields and a sanitised activity that is safe to read through the types below.
+ */
+
+// --- Section: Klook payload types ---
+export interface KlookImage {
+  image_url_host: string;
+  image_alt?: string;
+  image_desc?: string;
+  image_type?: string;
+  width?: number;
+  height?: number;
+  group_id?: string;
+  images?: KlookImage[] | null;
+}
+
+export interface KlookCityInfo {
+  city_id?: number;
+  city_name: string;
+  country_id?: number;
+  country_name?: string;
+}
+
+export interface KlookCategoryInfo {
+  sub_category_id?: number;
+  sub_category_name?: string;
+  leaf_category_id?: number;
+  leaf_category_name?: string;
+  // Not sent by Klook; set by editors when an offer has been curated.
+  curation_status?: string;
+}
+
+export interface KlookSectionGroup {
+  group_name?: string;
+  group_type?: number;
+  group_type_name?: string;
+  ref_field_tag?: string;
+  content?: string;
+}
+
+export interface KlookSection {
+  section_name?: string;
+  groups?: KlookSectionGroup[];
+}
+
+export interface KlookContactInfo {
+  key?: string;
+  required?: boolean;
+  regex?: string;
+}
+
+export interface KlookSku {
+  sku_id: number;
+  sku_type: string;
+  title?: string;
+  min_age?: number;
+  max_age?: number;
+  sku_min_pax?: number;
+  sku_max_pax?: number;
+  required?: number;
+  cancellation_type?: number;
+  cancellation_type_multilang?: string;
+  voucher_type?: number;
+  voucher_usage?: number;
+  voucher_usage_multilang?: string;
+  timeslot_type?: number;
+  instant?: number;
+  variant_group_key?: string;
+  variants?: unknown[];
+  section_info?: KlookSection[];
+}
+
+export interface KlookPackage {
+  package_id: number;
+  package_name: string;
+  package_min_pax?: number;
+  package_max_pax?: number;
+  cancellation_type?: number;
+  cancellation_type_multilang?: string;
+  voucher_usage?: number;
+  voucher_usage_multilang?: string;
+  timeslot_type?: number;
+  instant?: number;
+  ticket_type?: number;
+  is_open_date?: boolean;
+  time_zone?: string;
+  contact_info?: KlookContactInfo[];
+  section_info?: KlookSection[];
+  sku_list?: KlookSku[];
+  spec_attr_list?: unknown[] | null;
+  variant_definition?: unknown[] | null;
+}
+
+export interface KlookActivity {
+  activity_id: number;
+  title: string;
+  subtitle?: string;
+  what_we_love?: string;
+  video_url?: string;
+  supported_languages?: string[];
+  available_date?: string;
+  location?: string;
+  address_desc_multilang?: string;
+  price?: string;
+  vat_price?: string | number | null;
+  currency?: string;
+  has_msp?: boolean;
+  images?: KlookImage[];
+  city_info?: KlookCityInfo[];
+  departure_city_info?: KlookCityInfo[];
+  category_info?: KlookCategoryInfo;
+  section_info?: KlookSection[];
+  package_list?: KlookPackage[];
+  duration?: unknown[];
+  spec_attr_definition?: unknown[];
+  // Not sent by Klook; set by editors when an offer has been curated.
+  status?: string | null;
+  curation_status?: string | null;
+}
+
+export interface KlookEnvelope {
+  success: boolean;
+  activity?: KlookActivity;
+}
+
+// --- Section: Field specifications mirroring the types above ---
+type FieldType = 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object' | 'any';
+
+interface FieldSpec {
+  type: FieldType | FieldType[];
+  required?: boolean;
+  nullable?: boolean;
+  items?: FieldSpec;
+  fields?: Record<string, FieldSpec>;
+}
+
+const field = (type: FieldType | FieldType[], options: Omit<FieldSpec, 'type'> = {}): FieldSpec => ({
+  type,
+  ...options,
+});
+const required = (spec: FieldSpec): FieldSpec => ({ ...spec, required: true });
+const arrayOf = (items: FieldSpec, options: Omit<FieldSpec, 'type' | 'items'> = {}): FieldSpec =>
+  field('array', { ...options, items });
+const objectOf = (fields: Record<string, FieldSpec>, options: Omit<FieldSpec, 'type' | 'fields'> = {}): FieldSpec =>
+  field('object', { ...options, fields });
+
+const IMAGE_FIELDS: Record<string, FieldSpec> = {
+  image_url_host: required(field('string')),
+  image_alt: field('string'),
+  image_desc: field('string'),
+  image_type: field('string'),
+  width: field('integer'),
+  height: field('integer'),
+  group_id: field('string'),
+};
+const IMAGE_SPEC = objectOf({
+  ...IMAGE_FIELDS,
+  images: arrayOf(objectOf(IMAGE_FIELDS), { nullable: true }),
+});
+
+const CITY_SPEC = objectOf({
+  city_id: field('integer'),
+  city_name: required(field('string')),
+  country_id: field('integer'),
+  country_name: field('string'),
+});
+
+const SECTION_SPEC = objectOf({
+  section_name: field('string'),
+  groups: arrayOf(
+    objectOf({
+      group_name: field('string'),
+      group_type: field('integer'),
+      group_type_name: field('string'),
+      ref_field_tag: field('string'),
+      content: field('string'),
+    })
+  ),
+});
+
+const SKU_SPEC = objectOf({
+  sku_id: required(field('integer')),
+  sku_type: required(field('string')),
+  title: field('string'),
+  min_age: field('integer'),
+  max_age: field('integer'),
+  sku_min_pax: field('integer'),
+  sku_max_pax: field('integer'),
+  required: field('integer'),
+  cancellation_type: field('integer'),
+  cancellation_type_multilang: field('string'),
+  voucher_type: field('integer'),
+  voucher_usage: field('integer'),
+  voucher_usage_multilang: field('string'),
+  timeslot_type: field('integer'),
+  instant: field('integer'),
+  variant_group_key: field('string'),
+  variants: arrayOf(field('any')),
+  section_info: arrayOf(SECTION_SPEC),
+});
+
+const PACKAGE_SPEC = objectOf({
+  package_id: required(field('integer')),
+  package_name: required(field('string')),
+  package_min_pax: field('integer'),
+  package_max_pax: field('integer'),
+  cancellation_type: field('integer'),
+  cancellation_type_multilang: field('string'),
+  voucher_usage: field('integer'),
+  voucher_usage_multilang: field('string'),
+  timeslot_type: field('integer'),
+  instant: field('integer'),
+  ticket_type: field('integer'),
+  is_open_date: field('boolean'),
+  time_zone: field('string'),
+  contact_info: arrayOf(objectOf({ key: field('string'), required: field('boolean'), regex: field('string') })),
+  section_info: arrayOf(SECTION_SPEC),
+  sku_list: arrayOf(SKU_SPEC),
+  spec_attr_list: arrayOf(field('any'), { nullable: true }),
+  variant_definition: arrayOf(field('any'), { nullable: true }),
+});
+
+const ACTIVITY_SPEC = objectOf({
+  activity_id: required(field('integer')),
+  title: required(field('string')),
+  subtitle: field('string'),
+  what_we_love: field('string'),
+  video_url: field('string'),
+  supported_languages: arrayOf(field('string')),
+  available_date: field('string'),
+  location: field('string'),
+  address_desc_multilang: field('string'),
+  price: field('string'),
+  vat_price: field(['string', 'number'], { nullable: true }),
+  currency: field('string'),
+  has_msp: field('boolean'),
+  images: arrayOf(IMAGE_SPEC),
+  city_info: arrayOf(CITY_SPEC),
+  departure_city_info: arrayOf(CITY_SPEC),
+  category_info: objectOf({
+    sub_category_id: field('integer'),
+    sub_category_name: field('string'),
+    leaf_category_id: field('integer'),
+    leaf_category_name: field('string'),
+    curation_status: field('string'),
+  }),
+  section_info: arrayOf(SECTION_SPEC),
+  package_list: arrayOf(PACKAGE_SPEC),
+  duration: arrayOf(field('any')),
+  spec_attr_definition: arrayOf(field('any')),
+  status: field('string', { nullable: true }),
+  curation_status: field('string', { nullable: true }),
+});
+
+// --- Section: Validation ---
+export type IssueKind = 'missing' | 'malformed' | 'unknown';
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+export interface IngestionIssue {
+  path: string;
+  kind: IssueKind;
+  severity: IssueSeverity;
+  message: string;
+}
+
+export interface IngestionReport {
+  file: string;
+  activity_id: number | null;
+  accepted: boolean;
+  issues: IngestionIssue[];
+}
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return 'integer';
+  }
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'any':
+      return true;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Checks `value` against `spec`, recording issues at `severity`. Returns `{ ok: false }` when the value
+ * is unusable; otherwise the sanitised value, with malformed optional fields and broken array items removed.
+ */
+function checkValue(
+  value: unknown,
+  spec: FieldSpec,
+  path: string,
+  severity: IssueSeverity,
+  issues: IngestionIssue[]
+): { ok: boolean; value?: unknown } {
+  if (value === null && spec.nullable) {
+    return { ok: true, value: null };
+  }
+
+  const types = Array.isArray(spec.type) ? spec.type : [spec.type];
+  if (!types.some((type) => matchesType(value, type))) {
+    issues.push({
+      path,
+      kind: 'malformed',
+      severity,
+      message: `Expected ${types.join(' or ')}${spec.nullable ? ' or null' : ''}, got ${describeType(value)}.`,
+    });
+    return { ok: false };
+  }
+
+  if (Array.isArray(value) && spec.items) {
+    const items: unknown[] = [];
+    value.forEach((item, index) => {
+      // A broken item is dropped rather than rejecting the whole activity.
+      const checked = checkValue(item, spec.items as FieldSpec, `${path}[${index}]`, 'warning', issues);
+      if (checked.ok) {
+        items.push(checked.value);
+      }
+    });
+    return { ok: true, value: items };
+  }
+
+  if (spec.fields && value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const sanitised: Record<string, unknown> = {};
+    let ok = true;
+
+    for (const [key, childSpec] of Object.entries(spec.fields)) {
+      const childPath = `${path}.${key}`;
+      const childSeverity = childSpec.required ? severity : 'warning';
+      if (record[key] === undefined) {
+        if (childSpec.required) {
+          issues.push({ path: childPath, kind: 'missing', severity, message: 'Required field is missing.' });
+          ok = false;
+        }
+        continue;
+      }
+      const checked = checkValue(record[key], childSpec, childPath, childSeverity, issues);
+      if (checked.ok) {
+        sanitised[key] = checked.value;
+      } else if (childSpec.required) {
+        ok = false;
+      }
+    }
+
+    for (const key of Object.keys(record)) {
+      if (!(key in spec.fields)) {
+        issues.push({
+          path: `${path}.${key}`,
+          kind: 'unknown',
+          severity: 'info',
+          message: `Field is not part of the Klook activity schema (${describeType(record[key])}).`,
+        });
+        sanitised[key] = record[key];
+      }
+    }
+
+    return ok ? { ok: true, value: sanitised } : { ok: false };
+  }
+
+  return { ok: true, value };
+}
+
+/**
+ * Validates a parsed offer file. Files with `success: false`, no `activity`, or a missing/malformed required
+ * activity field are rejected; every other problem is reported and the offending value is dropped.
+ */
+export function validateEnvelope(
+  payload: unknown,
+  file: string
+): { activity: KlookActivity | null; report: IngestionReport } {
+  const issues: IngestionIssue[] = [];
+  let activityId: number | null = null;
+  const report = (activity: KlookActivity | null): { activity: KlookActivity | null; report: IngestionReport } => ({
+    activity,
+    report: { file, activity_id: activityId, accepted: activity != null, issues },
+  });
+
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    issues.push({ path: '$', kind: 'malformed', severity: 'error', message: 'File does not contain a JSON object.' });
+    return report(null);
+  }
+
+  const envelope = payload as Record<string, unknown>;
+  if (envelope.success === false) {
+    issues.push({ path: 'success', kind: 'malformed', severity: 'error', message: 'Feed reported success: false.' });
+  } else if (envelope.success !== true) {
+    issues.push({
+      path: 'success',
+      kind: envelope.success === undefined ? 'missing' : 'malformed',
+      severity: 'warning',
+      message: 'Expected success: true.',
+    });
+  }
+  for (const key of Object.keys(envelope)) {
+    if (key !== 'success' && key !== 'activity') {
+      issues.push({ path: key, kind: 'unknown', severity: 'info', message: 'Field is not part of the envelope.' });
+    }
+  }
+
+  if (envelope.activity == null) {
+    issues.push({ path: 'activity', kind: 'missing', severity: 'error', message: 'Payload has no activity.' });
+    return report(null);
+  }
+
+  const rawId = (envelope.activity as Record<string, unknown>).activity_id;
+  activityId = typeof rawId === 'number' && Number.isInteger(rawId) ? rawId : null;
+
+  const checked = checkValue(envelope.activity, ACTIVITY_SPEC, 'activity', 'error', issues);
+  if (!checked.ok || envelope.success === false) {
+    return report(null);
+  }
+  return report(checked.value as KlookActivity);
+}
@@ -0,0 +1,171 @@
+/**
+ * locales.ts
+ *
+ * Storefront locales and translated offer content. The offer files at the top of the offers directory hold
+ * the content Klook serves in DEFAULT_LOCALE; other languages of the same activities go in one subdirectory
+ * per locale (`offers/zh_TW/107217.json`). Grading uses one variant per activity for the configured storefront
+ * locale, and the completeness report lists the target locales an offer has no title, description or package
+ * names for.
+ */
+
+import type { StructuredOffer } from './offer_curation.js';
+
+export const DEFAULT_LOCALE = 'en_AU';
+
+export type CompletenessField = 'title' | 'description' | 'package names';
+
+export interface LocaleCompleteness {
+  locale: string;
+  // Whether Klook lists the locale in the activity's supported_languages.
+  supported: boolean;
+  // Locale of the content covering this locale (itself or another locale of the same language); null if none.
+  content_locale: string | null;
+  missing: CompletenessField[];
+}
+
+export interface OfferCompleteness {
+  activity_id: string;
+  title: string;
+  locales: LocaleCompleteness[];
+}
+
+const LOCALE_PATTERN = /^([a-z]{2})(?:[_-]([a-z]{2}))?$/i;
+
+// --- Section: Locale names and URLs ---
+/**
+ * Normalises "en-au", "en_AU" or "ja" to Klook's `en_AU` / `ja` form; returns null for anything else.
+ */
+export function parseLocale(value: string): string | null {
+  const match = value.trim().match(LOCALE_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return match[2] ? `${match[1].toLowerCase()}_${match[2].toUpperCase()}` : match[1].toLowerCase();
+}
+
+export function languageOf(locale: string): string {
+  return locale.split('_')[0];
+}
+
+export function activityUrl(activityId: unknown, locale: string = DEFAULT_LOCALE): string {
+  if (activityId == null || activityId === '') {
+    return '';
+  }
+  return `https://www.klook.com/${locale.replace('_', '-')}/activity/${activityId}`;
+}
+
+/**
+ * Identifies an offer's content in the grading cache and snapshot history. DEFAULT_LOCALE content keeps the
+ * bare activity ID; other locales are suffixed (`107217@zh_TW`) so their grades and versions never mix.
+ */
+export function offerKey(offer: Pick<StructuredOffer, 'activity_id' | 'locale'>): string {
+  const activityId = String(offer.activity_id ?? '');
+  return offer.locale === DEFAULT_LOCALE ? activityId : `${activityId}@${offer.locale}`;
+}
+
+// --- Section: Variant selection ---
+function coveringVariant<T extends { locale: string }>(variants: T[], locale: string): T | null {
+  return (
+    variants.find((variant) => variant.locale === locale) ??
+    variants.find((variant) => languageOf(variant.locale) === languageOf(locale)) ??
+    null
+  );
+}
+
+/**
+ * Picks the variant of one activity to grade in `locale`: an exact match, then another locale of the same
+ * language (en_AU content serves en_US), then the DEFAULT_LOCALE content, then whatever exists.
+ */
+export function selectLocaleVariant<T extends { locale: string }>(variants: T[], locale: string): T | null {
+  return (
+    coveringVariant(variants, locale) ??
+    variants.find((variant) => variant.locale === DEFAULT_LOCALE) ??
+    variants[0] ??
+    null
+  );
+}
+
+// --- Section: Completeness report ---
+function missingFields(offer: StructuredOffer | null): CompletenessField[] {
+  if (!offer) {
+    return ['title', 'description', 'package names'];
+  }
+  const missing: CompletenessField[] = [];
+  if (!(offer.title || '').trim()) {
+    missing.push('title');
+  }
+  if (!(offer.description_markdown || '').trim()) {
+    missing.push('description');
+  }
+  if (!offer.packages.length || offer.packages.some((pkg) => !(pkg.package_name || '').trim())) {
+    missing.push('package names');
+  }
+  return missing;
+}
+
+// A bare language such as `ja` is supported when Klook lists any region of it (`ja_JP`).
+function isSupported(supported: Set<string>, locale: string): boolean {
+  if (supported.has(locale)) {
+    return true;
+  }
+  return !locale.includes('_') && [...supported].some((entry) => languageOf(entry) === locale);
+}
+
+/**
+ * Checks every activity in `offers` (all locale variants, as returned by `ingestOffers`) against each target
+ * locale.
+ */
+export function buildCompletenessReport(offers: StructuredOffer[], targetLocales: string[]): OfferCompleteness[] {
+  const byActivity = new Map<string, StructuredOffer[]>();
+  for (const offer of offers) {
+    const activityId = String(offer.activity_id ?? '');
+    byActivity.set(activityId, [...(byActivity.get(activityId) ?? []), offer]);
+  }
+
+  return [...byActivity.entries()].map(([activityId, variants]) => {
+    const supported = new Set(variants.flatMap((variant) => variant.raw.supported_languages ?? []));
+    const primary = selectLocaleVariant(variants, DEFAULT_LOCALE);
+    return {
+      activity_id: activityId,
+      title: (primary?.title || '').trim(),
+      locales: targetLocales.map((locale) => {
+        const variant = coveringVariant(variants, locale);
+        return {
+          locale,
+          supported: isSupported(supported, locale),
+          content_locale: variant?.locale ?? null,
+          missing: missingFields(variant),
+        };
+      }),
+    };
+  });
+}
+
+export function isComplete(entry: OfferCompleteness): boolean {
+  return entry.locales.every((locale) => !locale.missing.length);
+}
+
+export function formatCompletenessReport(report: OfferCompleteness[], targetLocales: string[]): string {
+  const lines: string[] = [];
+  for (const entry of report) {
+    lines.push(`${entry.activity_id} ${entry.title}`);
+    for (const locale of entry.locales) {
+      const notes: string[] = [];
+      if (!locale.content_locale) {
+        notes.push(`no ${locale.locale} content`);
+      } else if (locale.content_locale !== locale.locale) {
+        notes.push(`served from ${locale.content_locale}`);
+      }
+      if (!locale.supported) {
+        notes.push('not in supported_languages');
+      }
+      const status = locale.missing.length ? `missing ${locale.missing.join(', ')}` : 'complete';
+      lines.push(`  ${locale.locale.padEnd(6)} ${status}${notes.length ? ` (${notes.join('; ')})` : ''}`);
+    }
+  }
+  const complete = report.filter(isComplete).length;
+  lines.push(
+    `\n${complete} of ${report.length} offers complete in ${targetLocales.join(', ')}.`
+  );
+  return lines.join('\n');
+}
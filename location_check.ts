@@ -0,0 +1,275 @@
+/**
+ * location_check.ts
+ *
+ * Checks an offer's `location` pin and address against its Klook city before the model sees them. The
+ * "lat,long" string is parsed and range-checked, then compared with the city's bounding box from the bundled
+ * gazetteer (gazetteer/cities.json, matched by Klook city_id and then by name). Passes that sell entry to
+ * several venues are detected from the copy and packages, each offer gets a normalised location type (single
+ * venue, citywide or meeting point), and anything contradicting that type is flagged.
+ */
+
+import fs from 'fs';
+import type { KlookCityInfo } from './klook_schema.js';
+import type { StructuredOffer } from './offer_curation.js';
+
+export type LocationType = 'single_venue' | 'citywide' | 'meeting_point';
+
+export interface GazetteerCity {
+  // Klook city_id when known; entries without one are matched by name and country.
+  city_id?: number;
+  name: string;
+  country: string;
+  aliases: string[];
+  // [south, west, north, east] in decimal degrees, covering the area a traveller would call the city.
+  bbox: [number, number, number, number];
+}
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export interface LocationCheck {
+  location_type: LocationType;
+  coordinates: Coordinates | null;
+  // Gazetteer city the Klook city resolved to; null when the gazetteer has no entry, so the pin is unchecked.
+  gazetteer_city: string | null;
+  // Whether the pin falls inside that city's bounding box; null when either is unknown.
+  inside_city: boolean | null;
+  // Phrases from the copy or packages that mark the offer as a multi-venue pass.
+  multi_venue_evidence: string[];
+  flags: string[];
+}
+
+// "100+ attractions", "30+ Miami Attractions", "5 attractions"; a count of one is a single venue.
+const VENUE_COUNT = /\b(\d+)\+?\s+(?:[a-z][\w'-]*\s+)?(?:attractions|venues|museums|sights|landmarks)\b/gi;
+const PASS_NAME = /\b(?:attraction|sightseeing|explorer|all[- ]inclusive|city|\d+-choice)\s+pass(?:es)?\b/gi;
+const MEETING_POINT = /\b(?:meet(?:ing)?\s+(?:point|location)|(?:pick[- ]?up|departure|starting)\s+point)\b/i;
+const MAX_EVIDENCE = 3;
+
+const loaded = new Map<string, GazetteerCity[]>();
+
+// --- Section: Gazetteer file ---
+function parseGazetteerCity(raw: any, position: string): GazetteerCity {
+  const fail = (message: string): never => {
+    throw new Error(`Gazetteer entry ${position}: ${message}`);
+  };
+  if (!raw || typeof raw !== 'object') {
+    fail('must be an object.');
+  }
+  if (typeof raw.name !== 'string' || !raw.name.trim() || typeof raw.country !== 'string' || !raw.country.trim()) {
+    fail('name and country must be non-empty strings.');
+  }
+  if (raw.city_id != null && !Number.isInteger(raw.city_id)) {
+    fail('city_id must be a Klook city ID.');
+  }
+  const aliases = raw.aliases ?? [];
+  if (!Array.isArray(aliases) || aliases.some((alias) => typeof alias !== 'string' || !alias.trim())) {
+    fail('aliases must be an array of names.');
+  }
+  const bbox = raw.bbox;
+  const valid =
+    Array.isArray(bbox) &&
+    bbox.length === 4 &&
+    bbox.every((value) => typeof value === 'number' && Number.isFinite(value)) &&
+    bbox[0] < bbox[2] &&
+    bbox[1] < bbox[3] &&
+    Math.abs(bbox[0]) <= 90 &&
+    Math.abs(bbox[2]) <= 90;
+  if (!valid) {
+    fail('bbox must be [south, west, north, east] in decimal degrees with south < north and west < east.');
+  }
+  return {
+    ...(raw.city_id != null ? { city_id: raw.city_id } : {}),
+    name: raw.name.trim(),
+    country: raw.country.trim(),
+    aliases: aliases.map((alias: string) => alias.trim()),
+    bbox: bbox as [number, number, number, number],
+  };
+}
+
+/**
+ * Reads and validates the gazetteer once per process; later calls return the same list.
+ */
+export function loadGazetteer(filePath: string): GazetteerCity[] {
+  const cached = loaded.get(filePath);
+  if (cached) {
+    return cached;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Failed to read gazetteer ${filePath}: ${error?.message || error}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Gazetteer ${filePath} must contain a JSON array of cities.`);
+  }
+  const cities = parsed.map((raw, index) => parseGazetteerCity(raw, `#${index + 1} in ${filePath}`));
+  loaded.set(filePath, cities);
+  return cities;
+}
+
+// --- Section: Coordinates and cities ---
+function normaliseName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function namesOf(city: GazetteerCity): string[] {
+  return [city.name, ...city.aliases].map(normaliseName);
+}
+
+function mentions(text: string, name: string): boolean {
+  return ` ${normaliseName(text)} `.includes(` ${name} `);
+}
+
+export function parseCoordinates(value: string | undefined): { coordinates: Coordinates | null; error: string | null } {
+  const text = (value || '').trim();
+  if (!text) {
+    return { coordinates: null, error: 'No location coordinates supplied.' };
+  }
+  const match = text.match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) {
+    return { coordinates: null, error: `Location "${text}" is not a "lat,long" pair.` };
+  }
+  const lat = Number(match[1]);
+  const lng = Number(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return {
+      coordinates: null,
+      error: `Location "${text}" is out of range (latitude -90 to 90, longitude -180 to 180).`,
+    };
+  }
+  if (lat === 0 && lng === 0) {
+    return { coordinates: null, error: 'Location "0,0" is a placeholder rather than a pin.' };
+  }
+  return { coordinates: { lat, lng }, error: null };
+}
+
+export function findGazetteerCity(gazetteer: GazetteerCity[], city: KlookCityInfo | undefined): GazetteerCity | null {
+  if (!city) {
+    return null;
+  }
+  const byId = city.city_id != null ? gazetteer.find((entry) => entry.city_id === city.city_id) : undefined;
+  if (byId) {
+    return byId;
+  }
+  const name = normaliseName(city.city_name);
+  const country = normaliseName(city.country_name || '');
+  return (
+    gazetteer.find(
+      (entry) => namesOf(entry).includes(name) && (!country || normaliseName(entry.country) === country)
+    ) ?? null
+  );
+}
+
+function insideBox(point: Coordinates, [south, west, north, east]: GazetteerCity['bbox']): boolean {
+  return point.lat >= south && point.lat <= north && point.lng >= west && point.lng <= east;
+}
+
+// --- Section: Venue detection ---
+/**
+ * Collects the phrases that show an offer sells entry to several venues: venue counts above one and pass
+ * names, from the title, subtitle, description and packages.
+ */
+export function detectMultiVenue(offer: StructuredOffer): string[] {
+  const texts = [
+    offer.title,
+    offer.subtitle,
+    offer.description_markdown,
+    ...offer.packages.flatMap((pkg) => [pkg.package_name, pkg.sections_markdown]),
+  ].filter((text): text is string => Boolean(text));
+
+  const evidence = new Map<string, string>();
+  for (const text of texts) {
+    for (const match of text.matchAll(VENUE_COUNT)) {
+      if (Number(match[1]) > 1) {
+        evidence.set(match[0].toLowerCase(), match[0]);
+      }
+    }
+    for (const match of text.matchAll(PASS_NAME)) {
+      evidence.set(match[0].toLowerCase(), match[0]);
+    }
+  }
+  return [...evidence.values()].slice(0, MAX_EVIDENCE);
+}
+
+function hasMeetingPoint(offer: StructuredOffer): boolean {
+  return [offer.description_markdown, ...offer.packages.map((pkg) => pkg.sections_markdown)].some((text) =>
+    MEETING_POINT.test(text || '')
+  );
+}
+
+// --- Section: Checks ---
+export function checkLocation(offer: StructuredOffer, gazetteer: GazetteerCity[]): LocationCheck {
+  const flags: string[] = [];
+  const { coordinates, error } = parseCoordinates(offer.location);
+  if (error) {
+    flags.push(error);
+  }
+
+  const klookCity = offer.raw?.city_info?.[0];
+  const city = findGazetteerCity(gazetteer, klookCity);
+  const cityName = city?.name || offer.city || 'the city';
+  let insideCity: boolean | null = null;
+  if (city && coordinates) {
+    insideCity = insideBox(coordinates, city.bbox);
+    if (!insideCity) {
+      const swapped = { lat: coordinates.lng, lng: coordinates.lat };
+      const containing = gazetteer.find((entry) => insideBox(coordinates, entry.bbox));
+      if (insideBox(swapped, city.bbox)) {
+        flags.push(`Location "${offer.location}" looks like long,lat; swapped, it falls inside ${city.name}.`);
+      } else {
+        const where = containing ? `; it falls in ${containing.name}` : '';
+        flags.push(`Location "${offer.location}" is outside ${city.name}${where}.`);
+      }
+    }
+  }
+
+  const address = (offer.address || '').trim();
+  const cityNames = city ? namesOf(city) : [normaliseName(offer.city || '')].filter(Boolean);
+  const cityLevelAddress = cityNames.includes(normaliseName(address));
+  if (city && address && !cityNames.some((name) => mentions(address, name))) {
+    const other = gazetteer.find((entry) => entry !== city && namesOf(entry).some((name) => mentions(address, name)));
+    if (other) {
+      flags.push(`Address "${address}" names ${other.name} rather than ${city.name}.`);
+    }
+  }
+
+  const evidence = detectMultiVenue(offer);
+  let locationType: LocationType = 'single_venue';
+  if (evidence.length) {
+    locationType = 'citywide';
+    if (address && !cityLevelAddress) {
+      flags.push(`Multi-venue pass is pinned to "${address}" rather than citywide ${cityName}.`);
+    }
+  } else if (hasMeetingPoint(offer)) {
+    locationType = 'meeting_point';
+  } else if (cityLevelAddress) {
+    flags.push(`Single-venue offer gives only "${address}" as its address rather than the venue.`);
+  }
+
+  return {
+    location_type: locationType,
+    coordinates,
+    gazetteer_city: city?.name ?? null,
+    inside_city: insideCity,
+    multi_venue_evidence: evidence,
+    flags,
+  };
+}
+
+export function describeLocationCheck(check: LocationCheck): string {
+  const evidence = check.multi_venue_evidence.length
+    ? ` (multi-venue: ${check.multi_venue_evidence.map((phrase) => `"${phrase}"`).join(', ')})`
+    : '';
+  let pin = 'pin not checked (city not in the gazetteer)';
+  if (check.gazetteer_city && check.inside_city != null) {
+    pin = `pin ${check.inside_city ? 'inside' : 'outside'} ${check.gazetteer_city}`;
+  } else if (check.gazetteer_city) {
+    pin = 'no usable pin';
+  }
+  const lines = [`Location type: ${check.location_type}${evidence}; ${pin}.`];
+  check.flags.forEach((flag) => lines.push(`- Location: ${flag}`));
+  return lines.join('\n');
+}
@@ -0,0 +1,149 @@
+/**
+ * markdown_sanitiser.ts
+ *
+ * Cleans the markdown rendered from Klook `section_info` before it is graded or shown. Klook's CMS labels
+ * leak through as headings ("Activity Selling Points - Free text"), groups repeat their own heading inside
+ * the content, marketing blocks are pasted more than once, and bullets mix `*` and `-`. The sanitiser works
+ * on blocks (headings and blank-line separated text) and never rewrites the wording itself.
+ */
+
+export interface SanitiseOptions {
+  // Text shown elsewhere on the offer (e.g. "What we love"); description paragraphs repeating it are dropped.
+  knownParagraphs?: string[];
+}
+
+// Klook CMS field labels that are used as group names but mean nothing to a traveller.
+const INTERNAL_LABELS: RegExp[] = [/\s-\s(free|rich) text$/i, /^activity selling points$/i, /^package icon$/i];
+
+// Short lines ("Reservation needed") legitimately repeat under different headings; only longer blocks are
+// treated as pasted duplicates.
+const MIN_DUPLICATE_LENGTH = 40;
+
+const BULLET = /^\s*-\s/;
+
+type Block = { kind: 'heading'; level: number; text: string } | { kind: 'text'; lines: string[] };
+
+// --- Section: Inline clean-up ---
+function cleanLine(line: string): string {
+  return line
+    .replace(/[\u00a0\u2007\u202f]/g, ' ')
+    .replace(/[\u200b-\u200d\ufeff]/g, '')
+    .replace(/\[([^\]]+)\]\(\s*\)/g, '$1')
+    .replace(/^(\s*)[*+-]\s+/, '$1- ')
+    .replace(/\s+$/, '');
+}
+
+/**
+ * Removes bold and italic markers and inline links, for fields shown as plain text such as "What we love".
+ */
+export function stripInlineMarkup(text: string): string {
+  return text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/\*\*|__/g, '')
+    .replace(/[ \t]+$/gm, '')
+    .trim();
+}
+
+function comparable(text: string): string {
+  return stripInlineMarkup(text)
+    .replace(/^\s*-\s+/gm, '')
+    .replace(/\s+/g, ' ')
+    .replace(/[.!\s]+$/, '')
+    .toLowerCase();
+}
+
+export function isInternalLabel(heading: string): boolean {
+  return INTERNAL_LABELS.some((pattern) => pattern.test(heading.trim()));
+}
+
+// --- Section: Blocks ---
+function parseBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  let lines: string[] = [];
+  const flush = () => {
+    if (lines.length) {
+      blocks.push({ kind: 'text', lines });
+      lines = [];
+    }
+  };
+
+  for (const rawLine of markdown.split(/\r?\n/)) {
+    const line = cleanLine(rawLine);
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flush();
+      blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2].trim() });
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+// Headings with no text before the next heading of the same or a higher level introduce nothing.
+function dropEmptyHeadings(blocks: Block[]): Block[] {
+  return blocks.filter((block, index) => {
+    if (block.kind !== 'heading') {
+      return true;
+    }
+    for (const next of blocks.slice(index + 1)) {
+      if (next.kind === 'text') {
+        return true;
+      }
+      if (next.level <= block.level) {
+        return false;
+      }
+    }
+    return false;
+  });
+}
+
+/**
+ * Drops internal labels, headings that repeat the heading directly above them, paragraphs already seen
+ * earlier (or in `knownParagraphs`) and headings left empty by those removals; normalises bullets to `- `,
+ * joins bullet lists split by blank lines, removes empty links and collapses blank lines.
+ */
+export function sanitiseMarkdown(markdown: string, options: SanitiseOptions = {}): string {
+  const seen = new Set(
+    (options.knownParagraphs ?? [])
+      .flatMap((text) => text.split(/\n\s*\n/))
+      .map(comparable)
+      .filter((key) => key.length >= MIN_DUPLICATE_LENGTH)
+  );
+  const kept: Block[] = [];
+
+  for (const block of parseBlocks(markdown)) {
+    if (block.kind === 'heading') {
+      const previous = kept[kept.length - 1];
+      const repeatsPrevious = previous?.kind === 'heading' && comparable(previous.text) === comparable(block.text);
+      if (!block.text || isInternalLabel(block.text) || repeatsPrevious) {
+        continue;
+      }
+      kept.push(block);
+      continue;
+    }
+    const key = comparable(block.lines.join('\n'));
+    if (key.length >= MIN_DUPLICATE_LENGTH) {
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+    }
+    // A blank line inside a bullet list splits it in two; join the halves back into one list.
+    const previous = kept[kept.length - 1];
+    const isList = (lines: string[]) => lines.every((line) => BULLET.test(line));
+    if (previous?.kind === 'text' && isList(previous.lines) && isList(block.lines)) {
+      previous.lines.push(...block.lines);
+      continue;
+    }
+    kept.push(block);
+  }
+
+  return dropEmptyHeadings(kept)
+    .map((block) => (block.kind === 'heading' ? `${'#'.repeat(block.level)} ${block.text}` : block.lines.join('\n')))
+    .join('\n\n');
+}
@@ -2,38 +2,95 @@
  * offer_curation.ts
  *
  * A TypeScript translation of the original Python notebook used for grading Klook offers.
- * The script loads offer JSON files, prepares payloads for the OpenAI Responses API,
- * evaluates each offer, logs the graded responses, and exports the aggregated results to CSV.
+ * The module loads offer JSON files, prepares payloads for the grading provider, evaluates each
+ * offer, and returns the aggregated results for exporters.ts. It has no import side effects; `cli.ts` is
+ * the command-line entry point.
  */
 
-// --- Section: Standard library imports and environment bootstrap ---
+// --- Section: Standard library imports ---
 import fs from 'fs';
 import path from 'path';
-import { fileURLToPath } from 'url';
-import { OpenAI } from 'openai';
-import dotenv from 'dotenv';
-
-// Resolve the current directory when running under ESM-compatible loaders.
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-dotenv.config();
-
-// --- Section: Shared constants mirroring the Python notebook configuration ---
-const OFFERS_DIR = path.resolve(__dirname, 'offers');
-const MAX_IMAGES_TO_REVIEW = 8;
-const MODEL_NAME = 'gpt-5';
-const REASONING_EFFORT = 'medium';
-const MAX_OUTPUT_TOKENS = 5000;
-const OPENAI_API_KEY_ENV = 'OPENAI_API_KEY';
-const ENV_PRIORITIES = ['.env', '.openai_api_key'];
-const CSV_OUTPUT_PATH = path.resolve(__dirname, 'graded_offers_ts.csv');
-const CONCURRENCY = Number.parseInt(process.env.OFFER_GRADING_CONCURRENCY || '4', 10);
-
-// --- Section: TypeScript type helpers describing the offer payloads ---
-type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
-
-interface ImageDetail {
+import {
+  createFixtureProvider,
+  createOpenAIProvider,
+  createRecordingProvider,
+  GradingProvider,
+  GradingRequest,
+  GradingResponse,
+  TokenUsage,
+} from './grading_providers.js';
+import { buildRepairPrompt, GradingOutput, validateGradingOutput } from './grading_schema.js';
+import { createAdaptiveLimiter, createRetryingProvider, GradingCallError } from './retry_policy.js';
+import {
+  CacheProvenance,
+  computeCacheKey,
+  computeSettingsKey,
+  GradingCacheSettings,
+  openGradingCache,
+} from './grading_cache.js';
+import type { CurationConfig } from './curation_config.js';
+import {
+  IngestionReport,
+  KlookActivity,
+  KlookCategoryInfo,
+  KlookImage,
+  KlookSection,
+  validateEnvelope,
+} from './klook_schema.js';
+import { formatLintFinding, LintFinding, lintOffer } from './offer_lint.js';
+import { applyReviewStatuses, openReviewStore, ReviewSummary } from './review_store.js';
+import {
+  addUsage,
+  buildRunManifest,
+  createBudgetTracker,
+  createRunId,
+  describeManifest,
+  emptyUsage,
+  estimateCost,
+  estimateGradingCost,
+  manifestEntry,
+  overBudgetEntry,
+  priceFor,
+  RunManifest,
+  writeRunManifest,
+} from './run_manifest.js';
+import { checkHeroImage, describeImageAnalysis, ImageAnalysis, rankImagesForOffers } from './image_analysis.js';
+import {
+  checkTargetAudiences,
+  describeOverview,
+  describePackage,
+  PackageOverview,
+  PackageSummary,
+  summariseOffer,
+  summarisePackage,
+} from './package_model.js';
+import {
+  CategorySuggestion,
+  describeSuggestion,
+  isCategoryMismatch,
+  suggestCategories,
+} from './taxonomy.js';
+import { loadPromptTemplate, PromptTemplate, renderTemplate } from './prompt_templates.js';
+import { sanitiseMarkdown, stripInlineMarkup } from './markdown_sanitiser.js';
+import { describeChange, diffSnapshots, OfferChange, openSnapshotStore, policyAllowsReuse } from './offer_snapshots.js';
+import { checkLocation, describeLocationCheck, loadGazetteer, LocationCheck, LocationType } from './location_check.js';
+import { activityUrl, DEFAULT_LOCALE, languageOf, offerKey, parseLocale, selectLocaleVariant } from './locales.js';
+import type { PolicyOutcome } from './approval_policy.js';
+import type { ClusterMembership } from './offer_similarity.js';
+import {
+  aggregatePasses,
+  EnsemblePass,
+  ensemblePasses,
+  EnsembleSummary,
+  providerForPass,
+  routeResult,
+} from './ensemble.js';
+import { currentLogContext, errorFields, log, span, withLogContext } from './run_log.js';
+
+// --- Section: TypeScript type helpers describing the structured offers ---
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+export interface ImageDetail {
   url?: string;
   type?: string;
   alt?: string;
@@ -41,45 +98,38 @@ interface ImageDetail {
   width?: number;
   height?: number;
   source?: string;
+  // Set by image_analysis.ts once the offer's images have been ranked.
+  analysis?: ImageAnalysis;
 }
 
-interface SectionGroup {
-  group_name?: string;
-  content?: string;
-}
-
-interface SectionInfo {
-  section_name?: string;
-  groups?: SectionGroup[];
-}
-
-interface PackageSummary {
-  package_id?: JsonValue;
-  package_name?: string;
-  sections_markdown?: string;
-}
-
-interface StructuredOffer {
+export interface StructuredOffer {
   source_path: string;
-  activity_id?: JsonValue;
+  activity_id: number;
+  // Locale of the content: DEFAULT_LOCALE for top-level offer files, else the locale subdirectory's name.
+  locale: string;
   title?: string;
   subtitle?: string;
   what_we_love?: string;
-  location?: JsonValue;
-  address?: JsonValue;
+  video_url?: string;
+  location?: string;
+  address?: string;
   category?: string;
-  category_detail?: Record<string, JsonValue> | null;
+  category_detail?: KlookCategoryInfo | null;
+  // Sanitised by markdown_sanitiser.ts; source_description_markdown is the verbatim rendering of Klook's
+  // sections, kept for the lint rules that report problems in the source data.
   description_markdown?: string;
+  source_description_markdown?: string;
   packages: PackageSummary[];
+  package_overview: PackageOverview;
   images: string[];
   image_details: ImageDetail[];
   city?: string;
   country?: string;
-  status?: JsonValue;
-  raw: Record<string, JsonValue>;
+  status?: string | null;
+  raw: KlookActivity;
 }
 
-interface GradingResult {
+export interface GradingResult {
   activity_id: JsonValue;
   score: number | null;
   reason: string;
@@ -89,132 +139,191 @@ interface GradingResult {
   hero_image_url: string | null;
   hero_image_reason: string;
   response_id: string | null;
+  valid: boolean;
+  validation_errors: string[];
+  attempts: number;
+  lint_findings: LintFinding[];
+  // Storefront leaves mapped from the Klook leaf category, and whether the model's categories ignored them.
+  suggested_categories: string[];
+  category_mismatch: boolean;
+  package_overview: PackageOverview;
+  // Target audiences the packages cannot sell, e.g. Family without a child ticket.
+  audience_flags: string[];
+  // Hard-constraint failures (resolution, hero crop, overlay) of the image the model picked.
+  hero_flags: string[];
+  // Prompt template version (prompts/<version>/); results cached before versioning have none.
+  prompt_version?: string;
+  // Token usage summed over every call for the offer, and wall time including retries and repairs.
+  // Results cached before run manifests existed have neither.
+  usage?: TokenUsage;
+  latency_ms?: number;
+  // Klook payload changes since the offer version the previous grade was made from (offer_snapshots.ts), and
+  // whether they led to this grade or were ignored by the re-grade policy, leaving the previous grade in place.
+  changes?: OfferChange[];
+  change_action?: 'regraded' | 'ignored';
+  // Normalised location type and pin/address mismatches (location_check.ts); results cached before location
+  // checks have neither.
+  location_type?: LocationType;
+  location_flags?: string[];
+  // Storefront locale the offer was graded for, and the locale of the content graded when no translation for
+  // it existed. Results cached before locales have neither and were graded in DEFAULT_LOCALE.
+  locale?: string;
+  content_locale?: string;
+  // Per-pass scores, agreement, confidence and review route when graded in several passes (ensemble.ts).
+  ensemble?: EnsembleSummary;
+  // Set by review_store.ts when human decisions are merged in before export.
+  review?: ReviewSummary;
+  // Duplicate or competing offers the offer was clustered with (offer_similarity.ts), set before the policy runs.
+  cluster?: ClusterMembership;
+  // Curation decision and the rule that made it, set by approval_policy.ts after reviews are merged.
+  decision?: PolicyOutcome;
+  // File holding the exact requests and responses behind the grade, when `artifactsDir` is set.
+  artifact_path?: string;
 }
 
-// --- Section: Utility functions for environment discovery ---
-function loadApiKeyFromFile(candidatePath: string): string | undefined {
-  try {
-    const content = fs.readFileSync(candidatePath, 'utf-8');
-    for (const rawLine of content.split(/\r?\n/)) {
-      const line = rawLine.trim();
-      if (!line || line.startsWith('#') || !line.includes('=')) {
-        continue;
-      }
-      const [key, value] = line.split('=', 2);
-      if (key.trim() === OPENAI_API_KEY_ENV) {
-        return value.trim().replace(/^"|"$/g, '');
-      }
-    }
-  } catch (error) {
-    // Silently ignore missing files; higher priority sources may exist.
-  }
-  return undefined;
+// One model call made while grading an offer, as written to the offer's artifact file.
+export interface GradingExchange {
+  attempt: number;
+  request: GradingRequest;
+  response: GradingResponse | null;
+  // Why the call failed, when it threw instead of responding.
+  error: string | null;
+  validation_errors: string[];
 }
 
-function loadApiKey(): string {
-  const envValue = process.env[OPENAI_API_KEY_ENV];
-  if (envValue && envValue.trim()) {
-    return envValue.trim();
-  }
-
-  for (const candidate of ENV_PRIORITIES) {
-    const candidatePath = path.resolve(__dirname, candidate);
-    const key = loadApiKeyFromFile(candidatePath);
-    if (key) {
-      return key;
-    }
-  }
-
-  throw new Error(
-    'OpenAI API key not found. Set OPENAI_API_KEY, or define it inside a local .env/.openai_api_key file.'
-  );
+// Deterministic results computed before the model call; they are quoted in the prompt and exported.
+export interface PreGradeChecks {
+  lint_findings: LintFinding[];
+  category_suggestion: CategorySuggestion | null;
+  location: LocationCheck;
 }
 
-// Lazily instantiate the OpenAI client so we only load credentials when we need them.
-let cachedClient: OpenAI | null = null;
-function getClient(): OpenAI {
-  if (!cachedClient) {
-    const apiKey = loadApiKey();
-    cachedClient = new OpenAI({ apiKey });
-  }
-  return cachedClient;
+// --- Section: JSON loading and transformation helpers ---
+export interface IngestionResult {
+  offers: StructuredOffer[];
+  reports: IngestionReport[];
 }
 
-// --- Section: JSON loading and transformation helpers ---
-async function loadOffers(directory: string): Promise<StructuredOffer[]> {
-  const results: StructuredOffer[] = [];
+async function listJsonFiles(directory: string): Promise<string[]> {
   let fileNames: string[] = [];
-
   try {
     fileNames = await fs.promises.readdir(directory);
   } catch (error) {
     throw new Error(`Failed to read offers directory: ${directory}`);
   }
+  return fileNames
+    .filter((name) => name.toLowerCase().endsWith('.json'))
+    .sort()
+    .map((name) => path.join(directory, name));
+}
 
-  const jsonFiles = fileNames.filter((name) => name.toLowerCase().endsWith('.json')).sort();
+/**
+ * Reads every JSON file in `directory` and in its locale subdirectories (`zh_TW/`), validates it against the
+ * Klook activity schema and structures the accepted activities, so an activity appears once per locale it
+ * has content for. Every file gets an ingestion report, including the ones that were rejected.
+ */
+export async function ingestOffers(directory: string): Promise<IngestionResult> {
+  const offers: StructuredOffer[] = [];
+  const reports: IngestionReport[] = [];
+  const files = (await listJsonFiles(directory)).map((filePath) => ({ filePath, locale: DEFAULT_LOCALE }));
+
+  const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+  for (const entry of entries.filter((item) => item.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+    const locale = parseLocale(entry.name);
+    if (locale === entry.name && locale !== DEFAULT_LOCALE) {
+      const localeFiles = await listJsonFiles(path.join(directory, entry.name));
+      files.push(...localeFiles.map((filePath) => ({ filePath, locale })));
+    }
+  }
 
-  for (const fileName of jsonFiles) {
-    const filePath = path.join(directory, fileName);
+  for (const { filePath, locale } of files) {
+    let payload: unknown;
     try {
-      const raw = await fs.promises.readFile(filePath, 'utf-8');
-      const payload = JSON.parse(raw);
-      const activity = payload?.activity as Record<string, JsonValue> | undefined;
-      if (activity) {
-        results.push(structureActivity(activity, filePath));
-      }
-    } catch (error) {
-      console.warn(`Skipping ${filePath} due to read/parse error:`, error);
+      payload = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+    } catch (error: any) {
+      reports.push({
+        file: filePath,
+        activity_id: null,
+        accepted: false,
+        issues: [
+          {
+            path: '$',
+            kind: 'malformed',
+            severity: 'error',
+            message: `Could not read or parse file (${error?.message || error}).`,
+          },
+        ],
+      });
+      continue;
+    }
+
+    const { activity, report } = validateEnvelope(payload, filePath);
+    reports.push(report);
+    if (activity) {
+      offers.push(structureActivity(activity, filePath, locale));
     }
   }
 
-  return results;
+  return { offers, reports };
 }
 
-function extractImageDetails(images: unknown): ImageDetail[] {
-  const details: ImageDetail[] = [];
-  if (!Array.isArray(images)) {
-    return details;
+/**
+ * Keeps one variant per activity for the storefront `locale` (see `selectLocaleVariant`), in ingestion order.
+ */
+export function offersForLocale(offers: StructuredOffer[], locale: string): StructuredOffer[] {
+  const byActivity = new Map<string, StructuredOffer[]>();
+  for (const offer of offers) {
+    const activityId = String(offer.activity_id ?? '');
+    byActivity.set(activityId, [...(byActivity.get(activityId) ?? []), offer]);
   }
+  const selected = [...byActivity.values()]
+    .map((variants) => selectLocaleVariant(variants, locale))
+    .filter((offer): offer is StructuredOffer => offer != null);
+
+  const untranslated = selected.filter((offer) => languageOf(offer.locale) !== languageOf(locale));
+  if (untranslated.length) {
+    const ids = untranslated.map((offer) => `${offer.activity_id} (${offer.locale})`).join(', ');
+    log.warn('offers_untranslated', `No ${locale} content for ${untranslated.length} offers; using: ${ids}.`, {
+      locale,
+      offers: untranslated.map((offer) => offerKey(offer)),
+    });
+  }
+  return selected;
+}
 
-  for (const image of images) {
-    if (!image || typeof image !== 'object') {
-      continue;
-    }
-    const primary = image as Record<string, JsonValue>;
-    const url = typeof primary.image_url_host === 'string' ? primary.image_url_host : undefined;
-    if (url) {
-      details.push({
-        url,
-        type: typeof primary.image_type === 'string' ? primary.image_type : undefined,
-        alt: typeof primary.image_alt === 'string' ? primary.image_alt : undefined,
-        description: typeof primary.image_desc === 'string' ? primary.image_desc : undefined,
-        width: typeof primary.width === 'number' ? primary.width : undefined,
-        height: typeof primary.height === 'number' ? primary.height : undefined,
-        source: 'primary',
-      });
-    }
+export async function loadOffers(directory: string, locale: string = DEFAULT_LOCALE): Promise<StructuredOffer[]> {
+  const { offers, reports } = await ingestOffers(directory);
+  for (const report of reports.filter((item) => !item.accepted)) {
+    const errors = report.issues.filter((issue) => issue.severity === 'error');
+    const described = errors.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+    log.warn('offer_skipped', `Skipping ${report.file}: ${described}`, {
+      activity_id: report.activity_id != null ? String(report.activity_id) : null,
+      file: report.file,
+      issues: errors.map((issue) => ({ path: issue.path, kind: issue.kind, message: issue.message })),
+    });
+  }
+  return offersForLocale(offers, locale);
+}
 
-    const nested = primary.images;
-    if (Array.isArray(nested)) {
-      for (const item of nested) {
-        if (!item || typeof item !== 'object') {
-          continue;
-        }
-        const detail = item as Record<string, JsonValue>;
-        const nestedUrl = typeof detail.image_url_host === 'string' ? detail.image_url_host : undefined;
-        if (!nestedUrl) {
-          continue;
-        }
-        details.push({
-          url: nestedUrl,
-          type: typeof detail.image_type === 'string' ? detail.image_type : undefined,
-          alt: typeof detail.image_alt === 'string' ? detail.image_alt : undefined,
-          description: typeof detail.image_desc === 'string' ? detail.image_desc : undefined,
-          width: typeof detail.width === 'number' ? detail.width : undefined,
-          height: typeof detail.height === 'number' ? detail.height : undefined,
-          source: 'nested',
-        });
-      }
+function toImageDetail(image: KlookImage, source: string): ImageDetail {
+  return {
+    url: image.image_url_host,
+    type: image.image_type,
+    alt: image.image_alt,
+    description: image.image_desc,
+    width: image.width,
+    height: image.height,
+    source,
+  };
+}
+
+function extractImageDetails(images: KlookImage[] | undefined): ImageDetail[] {
+  const details: ImageDetail[] = [];
+
+  for (const image of images || []) {
+    details.push(toImageDetail(image, 'primary'));
+    for (const nested of image.images || []) {
+      details.push(toImageDetail(nested, 'nested'));
     }
   }
 
@@ -231,28 +340,16 @@ function extractImageDetails(images: unknown): ImageDetail[] {
   return unique;
 }
 
-function renderSections(sectionInfo: unknown): string {
-  if (!Array.isArray(sectionInfo)) {
-    return '';
-  }
-
+function renderSections(sectionInfo: KlookSection[] | undefined): string {
   const chunks: string[] = [];
 
-  for (const section of sectionInfo) {
-    if (!section || typeof section !== 'object') {
-      continue;
-    }
-    const block = section as SectionInfo;
-    const sectionName = (block.section_name || '').toString().trim();
-    const groups = Array.isArray(block.groups) ? block.groups : [];
+  for (const block of sectionInfo || []) {
+    const sectionName = (block.section_name || '').trim();
 
     const groupBlocks: string[] = [];
-    for (const group of groups) {
-      if (!group) {
-        continue;
-      }
-      const groupName = (group.group_name || '').toString().trim();
-      const content = (group.content || '').toString().trim();
+    for (const group of block.groups || []) {
+      const groupName = (group.group_name || '').trim();
+      const content = (group.content || '').trim();
       if (!content) {
         continue;
       }
@@ -277,158 +374,50 @@ function renderSections(sectionInfo: unknown): string {
   return chunks.filter(Boolean).join('\n\n');
 }
 
-// --- Section: System prompt copied from the original notebook ---
-const SYSTEM_PROMPT = `You are a senior Luxury Escapes curation editor. Evaluate each Klook offer for suitability on our platform.
-Consider title clarity, image relevance, hero image suitability, category accuracy, description quality, and location correctness.
-Return a strict JSON object with keys:
-- score (0-5, integer)
-- categories (array of categories that best describe the Klook activity. You can only choose from the list below)
-- target_audiences (array of target audiences that best describe the Klook activity. You can only choose from the list below)
-- hero_image_index (integer index from the numbered image list, starting at 1, or null if no supplied image is suitable)
-- hero_image_url (string URL of the hero image that matches the numbered list entry, or null if none are acceptable)
-- hero_image_reason (string explaining why the selected image works, or why none are acceptable)
-- reason (concise justification including any category recommendations or red flags).
-
-## Categories
-These are the possible categories, note each is nested in a parent category. Do not include the parent category in the array.
-
-{
-  "Wine & Dine": [
-    "Fine dining",
-    "Restaurants & bars",
-    "Cafés",
-    "High tea",
-    "Food tours",
-    "Wine country trips",
-    "Breweries, distilleries & vineyards"
-  ],
-  "Top Activities": [
-    "Yachts, boats & cruises",
-    "Cooking classes",
-    "Up in the air",
-    "Outdoor activities",
-    "Watersports",
-    "Indoor activities",
-    "Photoshoot - Travelshoot",
-    "Wildlife Cruises",
-    "Cinemas",
-    "Golf",
-    "Ski",
-    "Beach & Pool Clubs",
-    "School Holidays"
-  ],
-  "Attractions & Tickets": [
-    "Theme & water parks",
-    "Attraction passes",
-    "Museums",
-    "Zoos & aquariums",
-    "Historical sites",
-    "Galleries"
-  ],
-  "Live Events": [
-    "Concerts",
-    "Theatre",
-    "Live sports",
-    "Special Events"
-  ],
-  "Indulge Yourself": [
-    "Spa & massage",
-    "Hot springs",
-    "Wellness"
-  ],
-  "Lux Exclusives": [
-    "The best of the best"
-  ],
-  "Travel Essentials": [
-    "Airport lounges",
-    "Luggage",
-    "Airport Services",
-    "Water Transfers"
-  ],
-  "Day Tours": [
-    "Guided tours",
-    "Walking tours",
-    "Bike tours",
-    "Hop-on-hop-off",
-    "Private tours"
-  ],
-  "Gift Inspiration": [
-    "Foodie",
-    "Thrill Seeker",
-    "Animal Lover",
-    "Spa-goer",
-    "Family",
-    "Aquatic Enthusiast"
-  ]
-}
-
-
-## Target Audiences
-These are the possible target audiences. Some or all can apply (it is most common for all to apply).
-- Solo
-- Couple
-- Group
-- Family
-
-When selecting the hero image:
-- You should chose the image most appropriate to be the lead/hero image for the experience offer on our website. This is the image we show in search results, and first on the offer page.
-- Use your understanding of the experience based on the offer description, and your knowledge of what customers are looking for, to guide your decision making
-- The first image that Klook provided often is very edited to include a promotional overlay. We should not choose that one. (Text naturally in the image, e.g. on the side of a bus, is fine. Edited overlays are not)
-- Ideally the customer would be able to look at the image and activity title and think 'I understand what that is about!'
-- Use the numbered list of images provided in the prompt; pick the index that best matches the guidance.
-- Return hero_image_url as the exact https URL from that list (do not respond with attachment:// references).
-- If none of the supplied images are acceptable, set hero_image_index and hero_image_url to null and explain why in hero_image_reason.
-`;
-
-function structureActivity(activity: Record<string, JsonValue>, sourcePath: string): StructuredOffer {
-  const packagesRaw = Array.isArray(activity.package_list) ? activity.package_list : [];
-  const packages: PackageSummary[] = [];
-  for (const item of packagesRaw) {
-    if (!item || typeof item !== 'object') {
-      continue;
-    }
-    const pkg = item as Record<string, JsonValue>;
-    packages.push({
-      package_id: pkg.package_id,
-      package_name: typeof pkg.package_name === 'string' ? pkg.package_name : undefined,
-      sections_markdown: renderSections(pkg.section_info),
-    });
-  }
+export function structureActivity(
+  activity: KlookActivity,
+  sourcePath: string,
+  locale: string = DEFAULT_LOCALE
+): StructuredOffer {
+  const packages = (activity.package_list || []).map((pkg) =>
+    summarisePackage(pkg, sanitiseMarkdown(renderSections(pkg.section_info)))
+  );
+  const whatWeLove = activity.what_we_love != null ? stripInlineMarkup(activity.what_we_love) : undefined;
+  const sourceDescription = renderSections(activity.section_info);
 
-  const cityInfo = Array.isArray(activity.city_info) ? activity.city_info : [];
-  const primaryCity = (cityInfo[0] || {}) as Record<string, JsonValue>;
-  const categoryInfo = (activity.category_info || {}) as Record<string, JsonValue>;
-  const status =
-    activity.status ||
-    activity.curation_status ||
-    categoryInfo.curation_status ||
-    null;
+  const primaryCity = activity.city_info?.[0];
+  const categoryInfo = activity.category_info;
+  const status = activity.status || activity.curation_status || categoryInfo?.curation_status || null;
 
   const imageDetails = extractImageDetails(activity.images);
 
   return {
     source_path: sourcePath,
     activity_id: activity.activity_id,
-    title: typeof activity.title === 'string' ? activity.title : undefined,
-    subtitle: typeof activity.subtitle === 'string' ? activity.subtitle : undefined,
-    what_we_love: typeof activity.what_we_love === 'string' ? activity.what_we_love : undefined,
+    locale,
+    title: activity.title,
+    subtitle: activity.subtitle,
+    what_we_love: whatWeLove,
+    video_url: activity.video_url,
     location: activity.location,
     address: activity.address_desc_multilang,
-    category: typeof categoryInfo.sub_category_name === 'string' ? categoryInfo.sub_category_name : undefined,
+    category: categoryInfo?.sub_category_name,
     category_detail: categoryInfo || null,
-    description_markdown: renderSections(activity.section_info),
+    description_markdown: sanitiseMarkdown(sourceDescription, { knownParagraphs: whatWeLove ? [whatWeLove] : [] }),
+    source_description_markdown: sourceDescription,
     packages,
+    package_overview: summariseOffer(packages),
     images: imageDetails.map((detail) => detail.url).filter((url): url is string => Boolean(url)),
     image_details: imageDetails,
-    city: typeof primaryCity.city_name === 'string' ? primaryCity.city_name : undefined,
-    country: typeof primaryCity.country_name === 'string' ? primaryCity.country_name : undefined,
+    city: primaryCity?.city_name,
+    country: primaryCity?.country_name,
     status,
     raw: activity,
   };
 }
 
 // --- Section: Prompt preparation mirroring the Python helper ---
-function summarisePackages(packages: PackageSummary[]): string {
+export function summarisePackages(packages: PackageSummary[]): string {
   if (!packages.length) {
     return 'No packages available.';
   }
@@ -437,192 +426,320 @@ function summarisePackages(packages: PackageSummary[]): string {
   packages.forEach((pkg, index) => {
     const name = pkg.package_name || `Package ${index + 1}`;
     const details = pkg.sections_markdown || 'No details supplied.';
-    lines.push(`Package: ${name}\n${details}`);
+    lines.push(`Package: ${name}\n${describePackage(pkg)}\n${details}`);
   });
   return lines.join('\n\n');
 }
 
-function buildOfferPrompt(offer: StructuredOffer): string {
-  const lines: string[] = [
-    `Activity ID: ${offer.activity_id ?? 'N/A'}`,
-    `Title: ${offer.title || 'N/A'}`,
-    `Subtitle: ${offer.subtitle || 'N/A'}`,
-    `What we love: ${offer.what_we_love || 'N/A'}`,
-    `Location (lat,long): ${offer.location ?? 'N/A'}`,
-    `Address: ${offer.address ?? 'N/A'}`,
-    `City: ${offer.city || 'N/A'}`,
-    `Country: ${offer.country || 'N/A'}`,
-    `Current category: ${offer.category || 'N/A'}`,
-    '',
-    'Offer description markdown:',
-    offer.description_markdown || 'No description supplied.',
-    '',
-    'Packages:',
-    summarisePackages(offer.packages),
-    '',
-    `Images provided (max ${MAX_IMAGES_TO_REVIEW} considered):`,
-  ];
-
-  const imageDetails = offer.image_details.slice(0, MAX_IMAGES_TO_REVIEW);
+function describeImages(offer: StructuredOffer, maxImages: number): string {
+  const imageDetails = offer.image_details.slice(0, maxImages);
   if (!imageDetails.length) {
-    lines.push('No images available.');
-  } else {
-    lines.push("Image metadata includes Klook's image_type to help avoid stylised banners.");
-    lines.push('Always reference these numbers when returning hero_image_index and use the exact URL shown.');
-    imageDetails.forEach((image, index) => {
-      const altText = (image.alt || '').trim() || 'N/A';
-      let description = (image.description || '').trim();
-      if (description.length > 120) {
-        description = `${description.slice(0, 117)}...`;
-      }
-      const displayDescription = description || 'N/A';
-      const type = image.type || 'UNKNOWN';
-      const url = image.url || 'N/A';
-      lines.push(`[${index + 1}] type=${type} alt=${altText} desc=${displayDescription} url=${url}`);
-    });
+    return 'No images available.';
   }
-
+  const lines = [
+    "Image metadata includes Klook's image_type to help avoid stylised banners.",
+    'Always reference these numbers when returning hero_image_index and use the exact URL shown.',
+  ];
+  imageDetails.forEach((image, index) => {
+    const altText = (image.alt || '').trim() || 'N/A';
+    let description = (image.description || '').trim();
+    if (description.length > 120) {
+      description = `${description.slice(0, 117)}...`;
+    }
+    const displayDescription = description || 'N/A';
+    const type = image.type || 'UNKNOWN';
+    const url = image.url || 'N/A';
+    const analysis = image.analysis ? ` analysis: ${describeImageAnalysis(image.analysis)}` : '';
+    lines.push(`[${index + 1}] type=${type} alt=${altText} desc=${displayDescription} url=${url}${analysis}`);
+  });
   return lines.join('\n');
 }
 
-// --- Section: Response parsing helpers for the Responses API ---
-function collectResponseText(response: any): string {
-  const payload = typeof response?.toJSON === 'function' ? response.toJSON() : response;
-  const chunks: string[] = [];
-  const outputItems = payload?.output || [];
-
-  for (const item of outputItems) {
-    const contents = item?.content || [];
-    for (const content of contents) {
-      if (content?.type === 'output_text' && typeof content?.text === 'string') {
-        chunks.push(content.text);
-      }
-    }
+function describeChecks(checks: PreGradeChecks): string {
+  const lines = [
+    `Suggested category: ${describeSuggestion(checks.category_suggestion)}`,
+    describeLocationCheck(checks.location),
+  ];
+  if (!checks.lint_findings.length) {
+    lines.push('No lint findings.');
+  } else {
+    checks.lint_findings.forEach((finding) => lines.push(`- ${formatLintFinding(finding)}`));
   }
-
-  return chunks.join('').trim();
+  return lines.join('\n');
 }
 
-function parseJsonResponse(text: string): Record<string, JsonValue> {
-  if (!text) {
-    return { score: null, reason: 'Empty response from model.' } as Record<string, JsonValue>;
-  }
+function describeLocale(offer: StructuredOffer, locale: string): string {
+  return languageOf(offer.locale) === languageOf(locale)
+    ? locale
+    : `${locale} (no ${locale} translation; the copy below is the ${offer.locale} content)`;
+}
 
-  try {
-    return JSON.parse(text);
-  } catch (error) {
-    const match = text.match(/\{[\s\S]*\}/);
-    if (match) {
-      try {
-        return JSON.parse(match[0]);
-      } catch {
-        // Fall through to error return below.
-      }
-    }
-  }
+/**
+ * Fills the version's offer template (`prompts/<version>/offer.md`) with the offer fields, packages,
+ * numbered image list and pre-grade checks, for the storefront `locale`.
+ */
+export function buildOfferPrompt(
+  offer: StructuredOffer,
+  template: PromptTemplate,
+  maxImages: number,
+  checks: PreGradeChecks,
+  locale: string = DEFAULT_LOCALE
+): string {
+  return renderTemplate(
+    template.offer,
+    {
+      activity_id: String(offer.activity_id ?? 'N/A'),
+      locale: describeLocale(offer, locale),
+      title: offer.title || 'N/A',
+      subtitle: offer.subtitle || 'N/A',
+      what_we_love: offer.what_we_love || 'N/A',
+      location: offer.location ?? 'N/A',
+      address: offer.address ?? 'N/A',
+      city: offer.city || 'N/A',
+      country: offer.country || 'N/A',
+      category: offer.category || 'N/A',
+      description: offer.description_markdown || 'No description supplied.',
+      package_overview: describeOverview(offer.package_overview),
+      packages: summarisePackages(offer.packages),
+      max_images: String(maxImages),
+      images: describeImages(offer, maxImages),
+      pre_checks: describeChecks(checks),
+    },
+    `${template.version}/offer.md`
+  );
+}
 
-  return { score: null, reason: `Failed to parse JSON: ${text}` } as Record<string, JsonValue>;
+// --- Section: Core grading routine calling the configured grading provider ---
+export function runPreGradeChecks(offer: StructuredOffer, config: CurationConfig): PreGradeChecks {
+  return {
+    lint_findings: lintOffer(offer, config),
+    category_suggestion: suggestCategories(offer.category_detail, config.categoryMap),
+    location: checkLocation(offer, loadGazetteer(config.gazetteerPath)),
+  };
 }
 
-function normaliseStringList(value: JsonValue | undefined): string[] {
-  if (Array.isArray(value)) {
-    return value.map((item) => (item != null ? String(item) : null)).filter((item): item is string => Boolean(item));
-  }
-  if (value == null || value === '') {
-    return [];
-  }
-  return [String(value)];
+function failedResult(
+  offer: StructuredOffer,
+  reason: string,
+  errors: string[],
+  responseId: string | null,
+  attempts: number,
+  checks: PreGradeChecks
+): GradingResult {
+  return {
+    activity_id: offer.activity_id ?? null,
+    score: null,
+    reason,
+    categories: [],
+    target_audiences: [],
+    hero_image_index: null,
+    hero_image_url: null,
+    hero_image_reason: '',
+    response_id: responseId,
+    valid: false,
+    validation_errors: errors,
+    attempts,
+    lint_findings: checks.lint_findings,
+    suggested_categories: checks.category_suggestion?.leaves ?? [],
+    category_mismatch: false,
+    package_overview: offer.package_overview,
+    audience_flags: [],
+    hero_flags: [],
+    location_type: checks.location.location_type,
+    location_flags: checks.location.flags,
+  };
 }
 
-// --- Section: Core grading routine calling the OpenAI Responses API ---
-async function gradeOffer(offer: StructuredOffer): Promise<GradingResult> {
-  const client = getClient();
-  const prompt = buildOfferPrompt(offer);
+export function promptTemplateFor(config: CurationConfig): PromptTemplate {
+  return loadPromptTemplate(config.promptsDir, config.promptVersion);
+}
 
-  const candidateImages = offer.image_details || [];
-  const imagePayload = candidateImages.slice(0, MAX_IMAGES_TO_REVIEW)
+export function buildGradingRequest(
+  offer: StructuredOffer,
+  config: CurationConfig,
+  checks: PreGradeChecks = runPreGradeChecks(offer, config)
+): GradingRequest {
+  const template = promptTemplateFor(config);
+  const images = (offer.image_details || []).slice(0, config.maxImagesToReview)
     .map((image) => image.url)
-    .filter((url): url is string => Boolean(url))
-    .map((url) => ({ type: 'input_image', image_url: url }));
+    .filter((url): url is string => Boolean(url));
 
-  const content = [
-    { type: 'input_text', text: prompt },
-    ...imagePayload,
-  ];
+  return {
+    activity_id: String(offer.activity_id ?? ''),
+    instructions: template.system,
+    prompt: buildOfferPrompt(offer, template, config.maxImagesToReview, checks, config.locale),
+    images,
+    metadata: {
+      activity_id: String(offer.activity_id ?? ''),
+      activity_title: offer.title || '',
+      activity_url: activityUrl(offer.activity_id, config.locale),
+      activity_category: offer.category || '',
+    },
+  };
+}
 
-  let responseId: string | null = null;
-  let parsed: Record<string, JsonValue> = { score: null, reason: 'No response.' };
+function gradingCacheSettings(provider: GradingProvider, config: CurationConfig): GradingCacheSettings {
+  const passes = ensemblePasses(config);
+  return {
+    provider: provider.name,
+    reasoning_effort: config.reasoningEffort,
+    max_output_tokens: config.maxOutputTokens,
+    ...(passes.length > 1 ? { ensemble: passes.map((pass) => pass.effort).join(',') } : {}),
+  };
+}
+
+export function gradingCacheKey(offer: StructuredOffer, provider: GradingProvider, config: CurationConfig): string {
+  return computeCacheKey(buildGradingRequest(offer, config), gradingCacheSettings(provider, config));
+}
 
+/**
+ * Writes `<artifactsDir>/<run_id>/<offer key>[.pass<n>].json` with every request and response behind a grade.
+ * A failed write is logged rather than failing the grade.
+ */
+async function writeGradingArtifact(
+  config: CurationConfig,
+  offer: StructuredOffer,
+  result: GradingResult,
+  exchanges: GradingExchange[]
+): Promise<string | null> {
+  const context = currentLogContext();
+  const name = `${offerKey(offer)}${context.pass != null ? `.pass${context.pass}` : ''}.json`;
+  const filePath = path.join(config.artifactsDir as string, context.run_id ?? 'no-run', name);
+  const artifact = {
+    run_id: context.run_id ?? null,
+    activity_id: offerKey(offer),
+    pass: context.pass ?? null,
+    model: config.model,
+    prompt_version: config.promptVersion,
+    written_at: new Date().toISOString(),
+    exchanges,
+    result,
+  };
   try {
-    const response = await client.responses.create({
-      model: MODEL_NAME,
-      instructions: SYSTEM_PROMPT,
-      input: [{ role: 'user', content }],
-      reasoning: { effort: REASONING_EFFORT },
-      max_output_tokens: MAX_OUTPUT_TOKENS,
-      metadata: {
-        activity_id: String(offer.activity_id ?? ''),
-        activity_title: offer.title || '',
-        activity_url: `https://www.klook.com/en-AU/activity/${offer.activity_id ?? ''}`,
-        activity_category: offer.category || '',
-      },
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, `${JSON.stringify(artifact, null, 2)}\n`, 'utf-8');
+    return filePath;
+  } catch (error) {
+    log.warn('artifact_write_failed', `Could not write grading artifact ${filePath}.`, {
+      file: filePath,
+      ...errorFields(error),
     });
-
-    responseId = typeof response?.id === 'string' ? response.id : null;
-    const responseText = collectResponseText(response);
-    parsed = parseJsonResponse(responseText);
-  } catch (error: any) {
-    const details = error?.response?.data || error?.response?.body || error?.message || error;
-    return {
-      activity_id: offer.activity_id ?? null,
-      score: null,
-      reason: `Model call failed: ${JSON.stringify(details)}`,
-      categories: [],
-      target_audiences: [],
-      hero_image_index: null,
-      hero_image_url: null,
-      hero_image_reason: '',
-      response_id: null,
-    };
+    return null;
   }
+}
 
-  const categories = normaliseStringList(parsed.categories) ?? [];
-  const targetAudiences = normaliseStringList(parsed.target_audiences) ?? [];
+export async function gradeOffer(
+  offer: StructuredOffer,
+  provider: GradingProvider,
+  config: CurationConfig
+): Promise<GradingResult> {
+  const startedAt = Date.now();
+  const usage = emptyUsage();
+  const exchanges: GradingExchange[] = [];
+  const result: GradingResult = {
+    ...(await gradeWithRepairs(offer, provider, config, usage, exchanges)),
+    prompt_version: config.promptVersion,
+    locale: config.locale,
+    content_locale: offer.locale,
+    usage,
+    latency_ms: Date.now() - startedAt,
+  };
+  const artifactPath = config.artifactsDir ? await writeGradingArtifact(config, offer, result, exchanges) : null;
+  return artifactPath ? { ...result, artifact_path: artifactPath } : result;
+}
+
+/**
+ * Grades the offer once per ensemble pass, with the passes sharing the caller's rate limiter, and folds
+ * them into one result (ensemble.ts).
+ */
+export async function gradeOfferEnsemble(
+  offer: StructuredOffer,
+  provider: GradingProvider,
+  config: CurationConfig,
+  passes: EnsemblePass[] = ensemblePasses(config)
+): Promise<GradingResult> {
+  const startedAt = Date.now();
+  const results = await Promise.all(
+    passes.map((pass) =>
+      withLogContext({ pass: pass.pass }, () => gradeOffer(offer, providerForPass(provider, pass), config))
+    )
+  );
+  return {
+    ...aggregatePasses(results, passes, config.autoApproveConfidence),
+    latency_ms: Date.now() - startedAt,
+  };
+}
+
+async function gradeWithRepairs(
+  offer: StructuredOffer,
+  provider: GradingProvider,
+  config: CurationConfig,
+  usage: TokenUsage,
+  exchanges: GradingExchange[]
+): Promise<GradingResult> {
+  // The same checks go into the prompt and the result.
+  const checks = runPreGradeChecks(offer, config);
+  const baseRequest = await span('prompt_build', () => buildGradingRequest(offer, config, checks));
+  const prompt = baseRequest.prompt;
+  const candidateImages = (offer.image_details || []).slice(0, config.maxImagesToReview);
+
+  let request = baseRequest;
+  let responseId: string | null = null;
+  let output: GradingOutput | null = null;
+  let errors: string[] = [];
+  let attempts = 0;
+
+  // Invalid output gets a repair request quoting the validation errors, up to maxGradingAttempts calls.
+  for (let attempt = 1; attempt <= config.maxGradingAttempts; attempt += 1) {
+    let response: GradingResponse;
+    const callRequest = request;
+    try {
+      response = await span('model_call', () => provider.grade(callRequest), { attempt });
+    } catch (error: any) {
+      attempts += error instanceof GradingCallError ? error.attempts : 1;
+      const details = error?.response?.data || error?.response?.body || error?.message || error;
+      const kind = error instanceof GradingCallError ? ` (${error.kind})` : '';
+      const reason = `Model call failed${kind}: ${JSON.stringify(details)}`;
+      exchanges.push({ attempt, request, response: null, error: reason, validation_errors: [] });
+      return failedResult(offer, reason, [...errors, reason], responseId, attempts, checks);
+    }
 
-  const heroImageIndexRaw = parsed.hero_image_index;
-  let heroImageIndex: number | null = null;
-  if (typeof heroImageIndexRaw === 'number' && Number.isFinite(heroImageIndexRaw)) {
-    heroImageIndex = Math.trunc(heroImageIndexRaw);
-  } else if (typeof heroImageIndexRaw === 'string' && heroImageIndexRaw.trim()) {
-    const numeric = Number.parseInt(heroImageIndexRaw.trim(), 10);
-    heroImageIndex = Number.isFinite(numeric) ? numeric : null;
+    attempts += response.attempts ?? 1;
+    addUsage(usage, response.usage);
+    responseId = response.response_id;
+    const text = response.text;
+    const outcome = await span('parse', () => validateGradingOutput(text, candidateImages.length), { attempt });
+    exchanges.push({ attempt, request, response, error: null, validation_errors: outcome.errors });
+    output = outcome.output;
+    errors = outcome.errors;
+    if (output) {
+      break;
+    }
+    request = { ...baseRequest, prompt: buildRepairPrompt(prompt, response.text, errors) };
   }
 
-  let heroImageUrl = parsed.hero_image_url ? String(parsed.hero_image_url).trim() : null;
-  if (heroImageUrl === '') {
-    heroImageUrl = null;
+  if (!output) {
+    return failedResult(
+      offer,
+      `Invalid model output after ${config.maxGradingAttempts} attempts: ${errors.join(' ')}`,
+      errors,
+      responseId,
+      attempts,
+      checks
+    );
   }
 
+  let heroImageIndex = output.hero_image_index;
+  let heroImageUrl = output.hero_image_url;
+
   if (heroImageIndex != null) {
-    if (heroImageIndex >= 1 && heroImageIndex <= candidateImages.length) {
-      const candidate = candidateImages[heroImageIndex - 1].url;
-      heroImageUrl = candidate || heroImageUrl;
-    } else {
-      heroImageIndex = null;
-    }
+    heroImageUrl = candidateImages[heroImageIndex - 1].url || heroImageUrl;
   }
 
   if (heroImageUrl && heroImageUrl.startsWith('attachment://')) {
     heroImageUrl = null;
   }
 
-  if (!heroImageUrl && heroImageIndex != null) {
-    const candidate = candidateImages[heroImageIndex - 1]?.url;
-    if (candidate) {
-      heroImageUrl = candidate;
-    }
-  }
-
   if (heroImageUrl && heroImageIndex == null) {
     const idx = candidateImages.findIndex((item) => item.url === heroImageUrl);
     if (idx >= 0) {
@@ -630,149 +747,395 @@ async function gradeOffer(offer: StructuredOffer): Promise<GradingResult> {
     }
   }
 
-  const heroImageReasonValue = parsed.hero_image_reason;
-  const heroImageReason = heroImageReasonValue == null
-    ? ''
-    : typeof heroImageReasonValue === 'string'
-      ? heroImageReasonValue.trim()
-      : JSON.stringify(heroImageReasonValue);
-
-  const scoreRaw = parsed.score;
-  let score: number | null = null;
-  const numericScore = Number(scoreRaw);
-  if (!Number.isNaN(numericScore)) {
-    score = Math.min(5, Math.max(0, numericScore));
-  }
-
-  const reasonValue = parsed.reason != null ? parsed.reason : parsed;
-  const reason = typeof reasonValue === 'string' ? reasonValue : JSON.stringify(reasonValue);
-
   return {
     activity_id: offer.activity_id ?? null,
-    score,
-    reason,
-    categories,
-    target_audiences: targetAudiences,
+    score: output.score,
+    reason: output.reason,
+    categories: output.categories,
+    target_audiences: output.target_audiences,
     hero_image_index: heroImageIndex,
     hero_image_url: heroImageUrl,
-    hero_image_reason: heroImageReason,
+    hero_image_reason: output.hero_image_reason,
     response_id: responseId,
+    valid: true,
+    validation_errors: [],
+    attempts,
+    lint_findings: checks.lint_findings,
+    suggested_categories: checks.category_suggestion?.leaves ?? [],
+    category_mismatch: isCategoryMismatch(output.categories, checks.category_suggestion?.leaves ?? []),
+    package_overview: offer.package_overview,
+    audience_flags: checkTargetAudiences(output.target_audiences, offer.package_overview),
+    hero_flags: heroImageIndex != null ? checkHeroImage(candidateImages[heroImageIndex - 1]) : [],
+    location_type: checks.location.location_type,
+    location_flags: checks.location.flags,
   };
 }
 
-// --- Section: Batch execution with simple concurrency control ---
-async function gradeOffers(offers: StructuredOffer[], concurrency: number): Promise<GradingResult[]> {
+// --- Section: Batch execution with adaptive concurrency control ---
+export function compareResults(a: GradingResult, b: GradingResult): number {
+  const idA = String(a.activity_id ?? '');
+  const idB = String(b.activity_id ?? '');
+  if (idA === idB) {
+    return a.reason.localeCompare(b.reason);
+  }
+  return idA.localeCompare(idB);
+}
+
+export async function gradeOffers(
+  offers: StructuredOffer[],
+  provider: GradingProvider,
+  config: CurationConfig,
+  onResult?: (offer: StructuredOffer, result: GradingResult) => Promise<void>
+): Promise<GradingResult[]> {
   if (!offers.length) {
     return [];
   }
-  const limiter = Math.max(1, Number.isFinite(concurrency) ? Math.trunc(concurrency) : 1);
+  const workerCount = Math.max(1, Number.isFinite(config.concurrency) ? Math.trunc(config.concurrency) : 1);
+  // Workers pull offers; the limiter decides how many of them may have a model call in flight.
+  const limiter = createAdaptiveLimiter({ max: workerCount });
+  const resilientProvider = createRetryingProvider(provider, limiter, {
+    maxAttempts: config.maxRetries,
+    baseDelayMs: 1000,
+    maxDelayMs: 60000,
+  });
+  const price = priceFor(config.model, config.priceTable);
+  if (config.budgetUsd != null && !price) {
+    throw new Error(`--budget needs a price for model "${config.model}"; add it to priceTable in the config file.`);
+  }
+  const budget = config.budgetUsd != null ? createBudgetTracker(config.budgetUsd) : null;
+  const passes = ensemblePasses(config);
   const queue = [...offers];
   const results: GradingResult[] = [];
+  let overBudget = 0;
 
   async function worker() {
     while (queue.length) {
+      let reserved = 0;
+      if (budget && price) {
+        const request = buildGradingRequest(queue[0], config);
+        const upperBound =
+          estimateGradingCost(request, config.maxOutputTokens, config.maxGradingAttempts, price) * passes.length;
+        const reservation = budget.reserve(upperBound);
+        if (reservation == null) {
+          overBudget += queue.splice(0).length;
+          return;
+        }
+        reserved = reservation;
+      }
       const next = queue.shift();
       if (!next) {
         return;
       }
-      const result = await gradeOffer(next);
-      console.log('Graded offer:', JSON.stringify(result, null, 2));
+      const offer = next;
+      const result = await withLogContext({ activity_id: offerKey(offer) }, async () => {
+        const graded =
+          passes.length > 1
+            ? await gradeOfferEnsemble(offer, resilientProvider, config, passes)
+            : await gradeOffer(offer, resilientProvider, config);
+        budget?.settle(reserved, price && graded.usage ? estimateCost(graded.usage, price) : 0);
+        const fields = {
+          score: graded.score,
+          valid: graded.valid,
+          attempts: graded.attempts,
+          latency_ms: graded.latency_ms ?? null,
+          response_id: graded.response_id,
+          artifact_path: graded.artifact_path ?? null,
+        };
+        if (graded.valid) {
+          log.info('offer_graded', `Graded with score ${graded.score}.`, fields);
+        } else {
+          log.warn('offer_graded', `Grading failed: ${graded.reason}`, { ...fields, errors: graded.validation_errors });
+        }
+        log.debug('offer_result', 'Full grading result.', { result: graded });
+        if (onResult) {
+          await onResult(offer, graded);
+        }
+        return graded;
+      });
       results.push(result);
     }
   }
 
-  const workers = Array.from({ length: limiter }, () => worker());
+  const workers = Array.from({ length: workerCount }, () => worker());
   await Promise.all(workers);
+  if (budget && overBudget) {
+    log.warn(
+      'budget_reached',
+      `Budget of $${budget.limitUsd} reached after ~$${budget.spentUsd.toFixed(4)}; ` +
+        `${overBudget} offers were not graded.`,
+      { budget_usd: budget.limitUsd, spent_usd: budget.spentUsd, not_graded: overBudget }
+    );
+  }
+
+  results.sort(compareResults);
+  return results;
+}
 
-  results.sort((a, b) => {
-    const idA = String(a.activity_id ?? '');
-    const idB = String(b.activity_id ?? '');
-    if (idA === idB) {
-      return a.reason.localeCompare(b.reason);
+// --- Section: Run orchestration replicating the notebook's main flow ---
+export function createGradingProvider(config: CurationConfig): GradingProvider {
+  const openai = () =>
+    createOpenAIProvider({
+      model: config.model,
+      reasoningEffort: config.reasoningEffort,
+      maxOutputTokens: config.maxOutputTokens,
+    });
+
+  switch (config.provider) {
+    case 'openai':
+      return openai();
+    case 'fixture':
+      return createFixtureProvider(config.fixturesDir);
+    case 'record':
+      return createRecordingProvider(openai(), config.fixturesDir);
+    default:
+      throw new Error(`Unknown grading provider "${config.provider}". Expected openai, fixture or record.`);
+  }
+}
+
+export interface OfferFilters {
+  // Explicit activity IDs; when set, status filters are ignored.
+  only?: Set<string> | null;
+  // Upper-cased statuses to keep; offers without a status match "NONE".
+  statuses?: Set<string> | null;
+  excludeStatuses?: Set<string>;
+}
+
+export const DEFAULT_EXCLUDED_STATUSES = new Set(['CURATED']);
+
+export function offerStatus(offer: StructuredOffer): string {
+  return String(offer.status || '').trim().toUpperCase() || 'NONE';
+}
+
+export function selectOffers(offers: StructuredOffer[], filters: OfferFilters = {}): StructuredOffer[] {
+  const excluded = filters.excludeStatuses ?? DEFAULT_EXCLUDED_STATUSES;
+  return offers.filter((offer) => {
+    if (filters.only) {
+      return filters.only.has(String(offer.activity_id ?? ''));
     }
-    return idA.localeCompare(idB);
+    const status = offerStatus(offer);
+    if (filters.statuses && !filters.statuses.has(status)) {
+      return false;
+    }
+    return !excluded.has(status);
   });
+}
 
-  return results;
+export interface RunOptions extends OfferFilters {
+  force?: boolean;
+  // Offers to grade instead of the offers directory, e.g. those received by the intake service.
+  offers?: StructuredOffer[];
 }
 
-// --- Section: CSV export matching the Python notebook output columns ---
-const CSV_COLUMNS = [
-  'activity_id',
-  'activity_url',
-  'hero_image_index',
-  'hero_image_url',
-  'hero_image_reason',
-  'categories',
-  'target_audiences',
-  'score',
-  'reason',
-  'log_url',
-];
-
-function escapeCsvValue(value: string | null | number): string {
-  const stringValue = value == null ? '' : String(value);
-  if (/[",\n]/.test(stringValue)) {
-    return `"${stringValue.replace(/"/g, '""')}"`;
-  }
-  return stringValue;
-}
-
-function buildCsvRow(result: GradingResult): string {
-  const activityId = result.activity_id != null ? String(result.activity_id) : '';
-  const activityUrl = activityId ? `https://www.klook.com/en-AU/activity/${activityId}` : '';
-  const logUrl = result.response_id ? `https://platform.openai.com/logs/${result.response_id}` : '';
-  const categories = result.categories.join('; ');
-  const audiences = result.target_audiences.join('; ');
-
-  const ordered = [
-    activityId,
-    activityUrl,
-    result.hero_image_index,
-    result.hero_image_url,
-    result.hero_image_reason,
-    categories,
-    audiences,
-    result.score,
-    result.reason,
-    logUrl,
+// Results alongside the offers they were graded from, which exporters.ts needs for offer fields.
+export interface GradingRun {
+  results: GradingResult[];
+  offers: StructuredOffer[];
+}
+
+async function finishRun(
+  config: CurationConfig,
+  provider: GradingProvider,
+  runId: string,
+  startedAt: Date,
+  cachedResults: GradingResult[],
+  gradedResults: GradingResult[],
+  overBudget: StructuredOffer[]
+): Promise<RunManifest> {
+  const price = priceFor(config.model, config.priceTable);
+  const entries = [
+    ...gradedResults.map((result) => manifestEntry(result, result.valid ? 'graded' : 'failed', price)),
+    ...cachedResults.map((result) => manifestEntry(result, 'cached', price)),
+    ...overBudget.map((offer) => overBudgetEntry(String(offer.activity_id ?? ''), price)),
   ];
+  const manifest = await buildRunManifest(
+    {
+      runId,
+      provider: provider.name,
+      model: config.model,
+      reasoningEffort: config.reasoningEffort,
+      maxOutputTokens: config.maxOutputTokens,
+      promptVersion: config.promptVersion,
+      systemPrompt: promptTemplateFor(config).system,
+      price,
+      budgetUsd: config.budgetUsd,
+      startedAt,
+    },
+    entries
+  );
+  const manifestPath = await writeRunManifest(manifest, config.manifestDir);
+  log.info('run_finished', describeManifest(manifest), {
+    counts: manifest.counts,
+    cost_usd: manifest.totals.cost_usd,
+    latency_ms: manifest.totals.latency_ms,
+    manifest_path: manifestPath,
+  });
+  return manifest;
+}
 
-  return ordered.map((item) => escapeCsvValue(item as string | number | null)).join(',');
+/**
+ * A previous grade kept because the re-grade policy ignores every change since it was made. The hero index
+ * is re-pointed at the hero's position in the current ranked image list.
+ */
+function reuseGrade(result: GradingResult, offer: StructuredOffer, changes: OfferChange[]): GradingResult {
+  const heroPosition = result.hero_image_url
+    ? offer.image_details.findIndex((image) => image.url === result.hero_image_url)
+    : -1;
+  return {
+    ...result,
+    hero_image_index: heroPosition >= 0 ? heroPosition + 1 : result.hero_image_index,
+    changes,
+    change_action: 'ignored',
+  };
 }
 
-async function writeResultsCsv(results: GradingResult[], outputPath: string): Promise<void> {
-  const lines = [CSV_COLUMNS.join(',')];
-  for (const result of results) {
-    lines.push(buildCsvRow(result));
-  }
-  await fs.promises.writeFile(outputPath, lines.join('\n'), 'utf-8');
-  console.log(`CSV exported to ${outputPath}`);
+/**
+ * Loads offers, reuses cached grades for unchanged ones and grades the rest, caching each valid result as
+ * soon as it lands so an interrupted run resumes where it stopped. Each offer's snapshot is recorded, and
+ * an offer whose only changes since its last grade are ones the re-grade policy ignores keeps that grade.
+ */
+export async function runGrading(
+  config: CurationConfig,
+  options: RunOptions = {}
+): Promise<GradingRun & { manifest: RunManifest }> {
+  const startedAt = new Date();
+  const runId = createRunId(startedAt);
+  return withLogContext({ run_id: runId, activity_id: null }, () => executeRun(config, options, runId, startedAt));
 }
 
-// --- Section: Main execution flow replicating the notebook's orchestration ---
-async function main(): Promise<void> {
-  console.log(`Loading offers from ${OFFERS_DIR}`);
-  const offers = await loadOffers(OFFERS_DIR);
-  console.log(`Loaded ${offers.length} offers.`);
+async function executeRun(
+  config: CurationConfig,
+  options: RunOptions,
+  runId: string,
+  startedAt: Date
+): Promise<GradingRun & { manifest: RunManifest }> {
+  const provider = createGradingProvider(config);
+  const offers = applyReviewStatuses(
+    options.offers ?? (await span('load', () => loadOffers(config.offersDir, config.locale))),
+    await openReviewStore(config.reviewsPath)
+  );
+  log.info('offers_loaded', `Loaded ${offers.length} offers.`, {
+    offers: offers.length,
+    source: options.offers ? 'intake' : config.offersDir,
+  });
 
-  const offersToGrade = offers.filter((offer) => {
-    const status = String(offer.status || '').toUpperCase();
-    return status !== 'CURATED';
+  const selected = selectOffers(offers, options);
+  const offersInScope = await span('rank_images', () => rankImagesForOffers(selected, config), {
+    offers: selected.length,
   });
-  console.log(`Queued ${offersToGrade.length} offers for grading.`);
+  if (!offersInScope.length) {
+    log.info('nothing_to_grade', 'No offers require grading.');
+    return { results: [], offers: [], manifest: await finishRun(config, provider, runId, startedAt, [], [], []) };
+  }
+
+  const cache = await openGradingCache(config.cachePath);
+  const snapshots = await openSnapshotStore(config.snapshotsPath);
+  const settingsKey = computeSettingsKey(promptTemplateFor(config).system, gradingCacheSettings(provider, config));
+  const cacheKeys = new Map<StructuredOffer, string>();
+  const provenance = new Map<StructuredOffer, CacheProvenance>();
+  const changesById = new Map<string, OfferChange[]>();
+  const cachedResults: GradingResult[] = [];
+  const offersToGrade: StructuredOffer[] = [];
+  let ignored = 0;
+
+  // --only names offers explicitly, so they are re-graded just like --force.
+  const bypassCache = Boolean(options.force || options.only);
+  for (const offer of offersInScope) {
+    const activityId = offerKey(offer);
+    const cacheKey = gradingCacheKey(offer, provider, config);
+    const snapshot = await snapshots.record(offer);
+    cacheKeys.set(offer, cacheKey);
+    const cached = bypassCache ? null : cache.get(activityId, cacheKey);
+    if (cached) {
+      cachedResults.push(routeResult(cached, config.autoApproveConfidence));
+      continue;
+    }
 
-  if (!offersToGrade.length) {
-    console.log('No offers require grading. Exiting.');
-    return;
+    const previous = cache.latest(activityId);
+    const baseline = previous?.snapshot_hash ? snapshots.find(activityId, previous.snapshot_hash) : null;
+    const changes = baseline ? diffSnapshots(baseline.snapshot, snapshot.snapshot) : [];
+    const reusable =
+      !bypassCache &&
+      previous?.settings_key === settingsKey &&
+      policyAllowsReuse(changes, config.regradePolicy, previous.result.hero_image_url);
+    if (previous && reusable) {
+      const reused = reuseGrade(previous.result, offer, changes);
+      await cache.put(activityId, cacheKey, reused, {
+        snapshot_hash: previous.snapshot_hash,
+        settings_key: settingsKey,
+      });
+      cachedResults.push(routeResult(reused, config.autoApproveConfidence));
+      ignored += 1;
+      continue;
+    }
+    if (changes.length) {
+      log.info('offer_changed', `Changed since its last grade: ${changes.map(describeChange).join('; ')}`, {
+        activity_id: activityId,
+        changes: changes.map((change) => change.kind),
+      });
+      changesById.set(String(offer.activity_id ?? ''), changes);
+    }
+    provenance.set(offer, { snapshot_hash: snapshot.snapshot_hash, settings_key: settingsKey });
+    offersToGrade.push(offer);
   }
+  log.info(
+    'offers_queued',
+    `Queued ${offersToGrade.length} offers for grading (${cachedResults.length - ignored} unchanged and ` +
+      `${ignored} with changes the re-grade policy ignores, reused from cache).`,
+    { queued: offersToGrade.length, cached: cachedResults.length - ignored, ignored }
+  );
+
+  const withChanges = (result: GradingResult): GradingResult => {
+    const changes = changesById.get(String(result.activity_id ?? ''));
+    return changes ? { ...result, changes, change_action: 'regraded' } : result;
+  };
+
+  log.info('grading_started', `Grading with ${provider.name}.`, { provider: provider.name, model: config.model });
+  const gradedResults = (
+    await gradeOffers(offersToGrade, provider, config, async (offer, result) => {
+      // Only valid grades are cached; failures are retried on the next run.
+      const cacheKey = cacheKeys.get(offer);
+      if (result.valid && cacheKey) {
+        await cache.put(offerKey(offer), cacheKey, withChanges(result), provenance.get(offer));
+      }
+    })
+  ).map(withChanges);
+
+  const graded = new Set(gradedResults.map((result) => String(result.activity_id ?? '')));
+  const overBudget = offersToGrade.filter((offer) => !graded.has(String(offer.activity_id ?? '')));
+  const manifest = await finishRun(config, provider, runId, startedAt, cachedResults, gradedResults, overBudget);
 
-  const results = await gradeOffers(offersToGrade, CONCURRENCY);
-  await writeResultsCsv(results, CSV_OUTPUT_PATH);
+  return {
+    results: [...cachedResults, ...gradedResults].sort(compareResults),
+    offers: offersInScope,
+    manifest,
+  };
 }
 
-// Start the script when executed directly.
-main().catch((error) => {
-  console.error('Fatal error running grading script:', error);
-  process.exitCode = 1;
-});
+/**
+ * Returns the cached grade for every selected offer whose current content matches a cache entry, without
+ * calling the model. Offers with no matching entry are reported as missing.
+ */
+export async function collectStoredResults(
+  config: CurationConfig,
+  filters: OfferFilters = {}
+): Promise<GradingRun & { missing: StructuredOffer[] }> {
+  const reviewed = applyReviewStatuses(
+    await loadOffers(config.offersDir, config.locale),
+    await openReviewStore(config.reviewsPath)
+  );
+  const offers = await rankImagesForOffers(selectOffers(reviewed, filters), config);
+  const provider = createGradingProvider(config);
+  const cache = await openGradingCache(config.cachePath);
+
+  const results: GradingResult[] = [];
+  const missing: StructuredOffer[] = [];
+  for (const offer of offers) {
+    const cached = cache.get(offerKey(offer), gradingCacheKey(offer, provider, config));
+    if (cached) {
+      results.push(routeResult(cached, config.autoApproveConfidence));
+    } else {
+      missing.push(offer);
+    }
+  }
+  return { results: results.sort(compareResults), offers, missing };
+}
@@ -0,0 +1,233 @@
+/**
+ * offer_lint.ts
+ *
+ * Deterministic checks over a StructuredOffer that run before the model is called. Findings are passed to
+ * the model as context and exported alongside the grade. Each rule has a default severity that the config
+ * file can override (or switch off) through `lintRules`.
+ */
+
+import type { StructuredOffer } from './offer_curation.js';
+import { suggestCategories } from './taxonomy.js';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+export type LintSetting = LintSeverity | 'off';
+
+export interface LintFinding {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+}
+
+export interface LintOptions {
+  lintRules: Record<string, LintSetting>;
+  minImageWidth: number;
+  minImageHeight: number;
+  categoryMap: Record<string, string[]>;
+}
+
+interface LintRule {
+  id: string;
+  description: string;
+  severity: LintSeverity;
+  check(offer: StructuredOffer, options: LintOptions): string[];
+}
+
+// --- Section: Helpers ---
+function describeWhitespace(value: string): string | null {
+  const problems: string[] = [];
+  if (/^\s/.test(value)) {
+    problems.push('leading whitespace');
+  }
+  if (/\s$/.test(value)) {
+    problems.push('trailing whitespace');
+  }
+  if (/\S\s{2,}\S/.test(value)) {
+    problems.push('repeated spaces');
+  }
+  return problems.length ? problems.join(', ') : null;
+}
+
+function normaliseText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[*_`>#-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function findRepeats(values: string[]): string[] {
+  const counts = new Map<string, { label: string; count: number }>();
+  for (const value of values) {
+    const key = normaliseText(value);
+    if (!key) {
+      continue;
+    }
+    const entry = counts.get(key) ?? { label: value.trim(), count: 0 };
+    entry.count += 1;
+    counts.set(key, entry);
+  }
+  return [...counts.values()].filter((entry) => entry.count > 1).map((entry) => `"${entry.label}" x${entry.count}`);
+}
+
+// Klook's own position, as describeImageAnalysis prints it, so findings hold whether or not images were ranked.
+function imageLabel(image: StructuredOffer['image_details'][number], index: number): string {
+  return `klook#${image.analysis?.original_index ?? index + 1}`;
+}
+
+// --- Section: Rules ---
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'title-whitespace',
+    description: 'Title has leading, trailing or repeated whitespace.',
+    severity: 'warning',
+    check(offer) {
+      const problem = offer.title ? describeWhitespace(offer.title) : null;
+      return problem ? [`Title has ${problem}: "${offer.title}".`] : [];
+    },
+  },
+  {
+    id: 'category-whitespace',
+    description: 'Klook category names contain stray whitespace.',
+    severity: 'info',
+    check(offer) {
+      const detail = offer.category_detail;
+      const messages: string[] = [];
+      for (const key of ['sub_category_name', 'leaf_category_name'] as const) {
+        const value = detail?.[key];
+        const problem = value ? describeWhitespace(value) : null;
+        if (problem) {
+          messages.push(`${key} has ${problem}: "${value}".`);
+        }
+      }
+      return messages;
+    },
+  },
+  {
+    id: 'unmapped-category',
+    description: 'The Klook leaf category has no storefront mapping, so no category is suggested.',
+    severity: 'info',
+    check(offer, options) {
+      const suggestion = suggestCategories(offer.category_detail, options.categoryMap);
+      if (!suggestion || suggestion.leaves.length) {
+        return [];
+      }
+      const leaf = `${suggestion.klook_leaf_id ?? '?'} "${suggestion.klook_leaf_name}"`;
+      return [`Klook leaf category ${leaf} is not in the category map.`];
+    },
+  },
+  {
+    id: 'missing-price',
+    description: 'Price or currency is empty.',
+    severity: 'warning',
+    check(offer) {
+      const missing = (['price', 'currency'] as const).filter((key) => !String(offer.raw[key] ?? '').trim());
+      return missing.length ? [`Feed has no ${missing.join(' or ')}.`] : [];
+    },
+  },
+  {
+    id: 'missing-description',
+    description: 'Offer has no description sections.',
+    severity: 'error',
+    check(offer) {
+      return offer.description_markdown ? [] : ['Offer has no description.'];
+    },
+  },
+  {
+    id: 'missing-images',
+    description: 'Offer has no images.',
+    severity: 'error',
+    check(offer) {
+      return offer.image_details.length ? [] : ['Offer has no images.'];
+    },
+  },
+  {
+    id: 'missing-packages',
+    description: 'Offer has no bookable packages.',
+    severity: 'warning',
+    check(offer) {
+      return offer.packages.length ? [] : ['Offer has no packages.'];
+    },
+  },
+  {
+    id: 'banner-image',
+    description: 'Image is a Klook BANNER, which usually carries a promotional overlay.',
+    severity: 'info',
+    check(offer) {
+      return offer.image_details
+        .map((image, index) => ({ image, index }))
+        .filter(({ image }) => (image.type || '').toUpperCase() === 'BANNER')
+        .map(({ image, index }) => `Image ${imageLabel(image, index)} is a BANNER.`);
+    },
+  },
+  {
+    id: 'low-resolution-image',
+    description: 'Image is smaller than the configured minimum width or height.',
+    severity: 'warning',
+    check(offer, options) {
+      return offer.image_details
+        .map((image, index) => ({ image, index }))
+        .filter(
+          ({ image }) =>
+            image.width != null &&
+            image.height != null &&
+            (image.width < options.minImageWidth || image.height < options.minImageHeight)
+        )
+        .map(
+          ({ image, index }) =>
+            `Image ${imageLabel(image, index)} is ${image.width}x${image.height}, below ` +
+            `${options.minImageWidth}x${options.minImageHeight}.`
+        );
+    },
+  },
+  {
+    id: 'repeated-heading',
+    description: 'The description repeats the same heading.',
+    severity: 'warning',
+    check(offer) {
+      const source = offer.source_description_markdown ?? offer.description_markdown ?? '';
+      const headings = source.match(/^#{1,6}\s+.+$/gm) || [];
+      const repeats = findRepeats(headings.map((heading) => heading.replace(/^#+\s+/, '')));
+      return repeats.length ? [`Description repeats headings: ${repeats.join(', ')}.`] : [];
+    },
+  },
+  {
+    id: 'repeated-paragraph',
+    description: 'The description repeats the same paragraph.',
+    severity: 'warning',
+    check(offer) {
+      const paragraphs = (offer.source_description_markdown ?? offer.description_markdown ?? '')
+        .split(/\n\s*\n/)
+        .map((block) => block.replace(/^#{1,6}\s+.+$/gm, '').trim())
+        .filter((block) => block.length >= 40);
+      const repeats = findRepeats(paragraphs).map((repeat) =>
+        repeat.length > 80 ? `${repeat.slice(0, 77)}...` : repeat
+      );
+      return repeats.length ? [`Description repeats ${repeats.length} paragraph(s): ${repeats.join(', ')}.`] : [];
+    },
+  },
+];
+
+export const LINT_RULE_IDS = LINT_RULES.map((rule) => rule.id);
+
+// --- Section: Engine ---
+export function lintOffer(offer: StructuredOffer, options: LintOptions): LintFinding[] {
+  const findings: LintFinding[] = [];
+  for (const rule of LINT_RULES) {
+    const setting = options.lintRules[rule.id] ?? rule.severity;
+    if (setting === 'off') {
+      continue;
+    }
+    for (const message of rule.check(offer, options)) {
+      findings.push({ rule: rule.id, severity: setting, message });
+    }
+  }
+  return findings;
+}
+
+export function formatLintFinding(finding: LintFinding): string {
+  return `[${finding.severity}] ${finding.rule}: ${finding.message}`;
+}
+
+export function countLintFindings(findings: LintFinding[], severity: LintSeverity): number {
+  return findings.filter((finding) => finding.severity === severity).length;
+}
@@ -0,0 +1,397 @@
+/**
+ * offer_similarity.ts
+ *
+ * Finds offers that sell the same experience under different Klook activity IDs, often from different
+ * suppliers. Every pair of offers in the same city is compared on five signals, each 0-1: normalised title
+ * words, description words, location pins, shared images (same file or a perceptual hash within
+ * `phashDistance`) and package structure. Their weighted mean is the pair's similarity; signals one side has
+ * no data for are left out of the mean. Pairs at or above `competingThreshold` are linked into clusters, and
+ * members linked at `duplicateThreshold` are duplicate listings rather than competing offers.
+ * Each cluster suggests a best offer to list, from the grades where there are any, so merchandising can keep
+ * one listing per attraction.
+ */
+
+import type { GradingResult, StructuredOffer } from './offer_curation.js';
+import { hammingDistance } from './image_analysis.js';
+import { parseCoordinates } from './location_check.js';
+import { countLintFindings } from './offer_lint.js';
+
+export type ClusterKind = 'duplicate' | 'competing';
+export type SimilaritySignal = 'title' | 'description' | 'location' | 'images' | 'packages';
+
+export const SIMILARITY_WEIGHTS: Record<SimilaritySignal, number> = {
+  title: 0.3,
+  description: 0.2,
+  location: 0.15,
+  images: 0.2,
+  packages: 0.15,
+};
+
+export interface SimilarityOptions {
+  duplicateThreshold: number;
+  competingThreshold: number;
+  phashDistance: number;
+}
+
+export interface OfferSimilarity {
+  a: string;
+  b: string;
+  score: number;
+  // Signals both offers had data for.
+  signals: Partial<Record<SimilaritySignal, number>>;
+}
+
+export interface ClusterMember {
+  activity_id: string;
+  title: string;
+  // 'duplicate' when the offer is a copy of another member's listing, 'competing' when it is a different offer
+  // for the same experience.
+  kind: ClusterKind;
+  // Grade after reviewer decisions; null when the offer has no stored grade.
+  score: number | null;
+  best: boolean;
+}
+
+export interface OfferCluster {
+  // `cluster-<lowest activity ID>`, stable while the membership is.
+  id: string;
+  kind: ClusterKind;
+  best: string;
+  best_reason: string;
+  // Best first, then by activity ID.
+  members: ClusterMember[];
+  // Linked pairs, closest first.
+  pairs: OfferSimilarity[];
+}
+
+// Set on a result by applyClusters when the offer belongs to a cluster; `kind` is the member's own.
+export interface ClusterMembership {
+  cluster_id: string;
+  kind: ClusterKind;
+  best: boolean;
+  best_activity_id: string;
+  size: number;
+}
+
+interface OfferFeatures {
+  id: string;
+  offer: StructuredOffer;
+  city: string;
+  title: Set<string>;
+  description: Set<string>;
+  pin: { lat: number; lng: number } | null;
+  imageFiles: Set<string>;
+  imageHashes: string[];
+  packages: Array<Set<string>>;
+}
+
+// Words that say nothing about which experience is being sold.
+const FILLER_WORDS = new Set(['an', 'and', 'at', 'by', 'for', 'from', 'in', 'of', 'on', 'or', 'the', 'to', 'with']);
+const BOOKING_WORDS = new Set(['admission', 'entry', 'ticket', 'tickets', 'klook', 'exclusive', 'official']);
+// Pins this close are treated as the same place; similarity falls to zero at MAX_PIN_DISTANCE_KM.
+const SAME_PLACE_KM = 0.5;
+const MAX_PIN_DISTANCE_KM = 10;
+
+// --- Section: Features ---
+function words(value: string | undefined, ignore: Set<string> = new Set()): Set<string> {
+  const tokens = (value || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    // Brand spellings such as "CityPASS" or "SeaPass" read as "city pass" and "sea pass".
+    .flatMap((token) => (token.length > 4 && token.endsWith('pass') ? [token.slice(0, -4), 'pass'] : [token]))
+    .filter((token) => token.length > 1 && !FILLER_WORDS.has(token) && !BOOKING_WORDS.has(token))
+    .filter((token) => !ignore.has(token));
+  return new Set(tokens);
+}
+
+function imageFile(url: string): string {
+  return (url.split('?')[0].split('/').pop() || url).toLowerCase();
+}
+
+function featuresOf(offer: StructuredOffer): OfferFeatures {
+  // Both offers in a pair share the city, so its name would only inflate title and description overlap.
+  const place = words([offer.city, offer.country].filter(Boolean).join(' '));
+  const { coordinates } = parseCoordinates(offer.location);
+  return {
+    id: String(offer.activity_id),
+    offer,
+    city: [...words(offer.city)].join(' '),
+    title: words(offer.title, place),
+    description: words(offer.description_markdown, place),
+    pin: coordinates,
+    imageFiles: new Set(offer.images.map(imageFile)),
+    imageHashes: offer.image_details
+      .map((detail) => detail.analysis?.phash)
+      .filter((hash): hash is string => Boolean(hash)),
+    packages: offer.packages.map((pkg) => words(pkg.package_name, place)).filter((name) => name.size > 0),
+  };
+}
+
+// --- Section: Signals ---
+function jaccard(a: Set<string>, b: Set<string>): number | null {
+  if (!a.size || !b.size) {
+    return null;
+  }
+  let shared = 0;
+  a.forEach((token) => {
+    if (b.has(token)) {
+      shared += 1;
+    }
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+function distanceKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const radians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = radians(b.lat - a.lat);
+  const dLng = radians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(radians(a.lat)) * Math.cos(radians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+function locationSignal(a: OfferFeatures, b: OfferFeatures): number | null {
+  if (!a.pin || !b.pin) {
+    return null;
+  }
+  const km = distanceKm(a.pin, b.pin);
+  return km <= SAME_PLACE_KM ? 1 : Math.max(0, 1 - (km - SAME_PLACE_KM) / (MAX_PIN_DISTANCE_KM - SAME_PLACE_KM));
+}
+
+// Share of the smaller gallery that also appears in the other one, as the same file or a near-identical image.
+function imageSignal(a: OfferFeatures, b: OfferFeatures, phashDistance: number): number | null {
+  const smaller = Math.min(a.imageFiles.size, b.imageFiles.size);
+  if (!smaller) {
+    return null;
+  }
+  let sharedFiles = 0;
+  a.imageFiles.forEach((file) => {
+    if (b.imageFiles.has(file)) {
+      sharedFiles += 1;
+    }
+  });
+  const sharedHashes = a.imageHashes.filter((hash) =>
+    b.imageHashes.some((other) => hammingDistance(hash, other) <= phashDistance)
+  ).length;
+  return Math.min(1, Math.max(sharedFiles, sharedHashes) / smaller);
+}
+
+// How well each package of the smaller offer matches one of the other's by name, scaled by the package counts.
+function packageSignal(a: OfferFeatures, b: OfferFeatures): number | null {
+  if (!a.packages.length || !b.packages.length) {
+    return null;
+  }
+  const [fewer, more] = a.packages.length <= b.packages.length ? [a.packages, b.packages] : [b.packages, a.packages];
+  const matched = fewer.map((name) => Math.max(...more.map((other) => jaccard(name, other) ?? 0)));
+  const nameMatch = matched.reduce((sum, value) => sum + value, 0) / fewer.length;
+  return 0.7 * nameMatch + 0.3 * (fewer.length / more.length);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Similarity of two offers, or null when they are in different cities and so never the same experience.
+ */
+function compareFeatures(a: OfferFeatures, b: OfferFeatures, options: SimilarityOptions): OfferSimilarity | null {
+  if (a.city && b.city && a.city !== b.city) {
+    return null;
+  }
+  const measured: Record<SimilaritySignal, number | null> = {
+    title: jaccard(a.title, b.title),
+    description: jaccard(a.description, b.description),
+    location: locationSignal(a, b),
+    images: imageSignal(a, b, options.phashDistance),
+    packages: packageSignal(a, b),
+  };
+  const signals: Partial<Record<SimilaritySignal, number>> = {};
+  let weighted = 0;
+  let weights = 0;
+  for (const [signal, value] of Object.entries(measured) as Array<[SimilaritySignal, number | null]>) {
+    if (value != null) {
+      signals[signal] = round(value);
+      weighted += value * SIMILARITY_WEIGHTS[signal];
+      weights += SIMILARITY_WEIGHTS[signal];
+    }
+  }
+  return { a: a.id, b: b.id, score: weights ? round(weighted / weights) : 0, signals };
+}
+
+export function compareOffers(
+  a: StructuredOffer,
+  b: StructuredOffer,
+  options: SimilarityOptions
+): OfferSimilarity | null {
+  return compareFeatures(featuresOf(a), featuresOf(b), options);
+}
+
+// --- Section: Clusters ---
+interface RankingFacts {
+  id: string;
+  valid: number;
+  score: number;
+  lint_errors: number;
+  image_count: number;
+  package_count: number;
+}
+
+// Tried in order; the first one that separates the best offer from the runner-up is the reason given.
+const BEST_IN_CLUSTER: Array<{ reason: string; value(facts: RankingFacts): number }> = [
+  { reason: 'the only valid grade', value: (facts) => facts.valid },
+  { reason: 'the highest score', value: (facts) => facts.score },
+  { reason: 'the fewest lint errors', value: (facts) => -facts.lint_errors },
+  { reason: 'the most images', value: (facts) => facts.image_count },
+  { reason: 'the most packages', value: (facts) => facts.package_count },
+];
+
+function rankingFacts(offer: StructuredOffer, result: GradingResult | undefined): RankingFacts {
+  return {
+    id: String(offer.activity_id),
+    valid: result?.valid ? 1 : 0,
+    score: result?.score ?? -1,
+    lint_errors: result ? countLintFindings(result.lint_findings, 'error') : 0,
+    image_count: offer.images.length,
+    package_count: offer.packages.length,
+  };
+}
+
+function compareRanking(a: RankingFacts, b: RankingFacts): number {
+  for (const { value } of BEST_IN_CLUSTER) {
+    if (value(a) !== value(b)) {
+      return value(b) - value(a);
+    }
+  }
+  return Number(a.id) - Number(b.id) || a.id.localeCompare(b.id);
+}
+
+function bestReason(best: RankingFacts, runnerUp: RankingFacts): string {
+  const decider = BEST_IN_CLUSTER.find(({ value }) => value(best) !== value(runnerUp));
+  return decider ? decider.reason : 'the longest-standing listing (lowest activity ID)';
+}
+
+// Disjoint sets of activity IDs, joined pair by pair.
+function createGroups(ids: string[]) {
+  const parent = new Map(ids.map((id) => [id, id]));
+  const root = (id: string): string => {
+    let current = id;
+    while (parent.get(current) !== current) {
+      current = parent.get(current)!;
+    }
+    parent.set(id, current);
+    return current;
+  };
+  return {
+    root,
+    join: (a: string, b: string) => parent.set(root(a), root(b)),
+    size: (id: string) => ids.filter((other) => root(other) === root(id)).length,
+  };
+}
+
+/**
+ * Clusters offers whose similarity reaches `competingThreshold`, linking through any chain of close pairs.
+ * Members linked to another member at `duplicateThreshold` are duplicates; the cluster is a duplicate cluster
+ * when all its members are copies of one listing. `results` (matched by activity ID) decide the best offer in
+ * each cluster; offers without a grade rank below graded ones.
+ */
+export function findClusters(
+  offers: StructuredOffer[],
+  results: GradingResult[],
+  options: SimilarityOptions
+): OfferCluster[] {
+  const features = offers.map(featuresOf);
+  const competing = createGroups(features.map((entry) => entry.id));
+  const duplicates = createGroups(features.map((entry) => entry.id));
+
+  const linked: OfferSimilarity[] = [];
+  features.forEach((a, index) => {
+    for (const b of features.slice(index + 1)) {
+      const similarity = compareFeatures(a, b, options);
+      if (similarity && similarity.score >= options.competingThreshold) {
+        linked.push(similarity);
+        competing.join(a.id, b.id);
+        if (similarity.score >= options.duplicateThreshold) {
+          duplicates.join(a.id, b.id);
+        }
+      }
+    }
+  });
+
+  const resultsById = new Map(results.map((result) => [String(result.activity_id ?? ''), result]));
+  const groups = new Map<string, OfferFeatures[]>();
+  features.forEach((entry) => {
+    const root = competing.root(entry.id);
+    groups.set(root, [...(groups.get(root) ?? []), entry]);
+  });
+
+  const clusters: OfferCluster[] = [];
+  for (const members of groups.values()) {
+    if (members.length < 2) {
+      continue;
+    }
+    const ids = new Set(members.map((member) => member.id));
+    const pairs = linked.filter((pair) => ids.has(pair.a)).sort((x, y) => y.score - x.score);
+    const ranked = members
+      .map((member) => rankingFacts(member.offer, resultsById.get(member.id)))
+      .sort(compareRanking);
+    const best = ranked[0].id;
+    const byId = new Map(members.map((member) => [member.id, member.offer]));
+    clusters.push({
+      id: `cluster-${[...ids].sort((x, y) => Number(x) - Number(y) || x.localeCompare(y))[0]}`,
+      kind: duplicates.size(best) === members.length ? 'duplicate' : 'competing',
+      best,
+      best_reason: bestReason(ranked[0], ranked[1]),
+      members: ranked.map((facts) => ({
+        activity_id: facts.id,
+        title: (byId.get(facts.id)?.title || '').trim(),
+        kind: duplicates.size(facts.id) > 1 ? 'duplicate' : 'competing',
+        score: resultsById.get(facts.id)?.score ?? null,
+        best: facts.id === best,
+      })),
+      pairs,
+    });
+  }
+  return clusters.sort((x, y) => y.pairs[0].score - x.pairs[0].score || x.id.localeCompare(y.id));
+}
+
+/**
+ * Sets `cluster` on the results of clustered offers; run it after reviewer decisions are merged so the best
+ * offer reflects overridden scores, and before the approval policy so its rules can use the cluster facts.
+ */
+export function applyClusters(results: GradingResult[], clusters: OfferCluster[]): GradingResult[] {
+  const memberships = new Map<string, ClusterMembership>();
+  for (const cluster of clusters) {
+    for (const member of cluster.members) {
+      memberships.set(member.activity_id, {
+        cluster_id: cluster.id,
+        kind: member.kind,
+        best: member.best,
+        best_activity_id: cluster.best,
+        size: cluster.members.length,
+      });
+    }
+  }
+  return results.map((result) => {
+    const cluster = memberships.get(String(result.activity_id ?? ''));
+    return cluster ? { ...result, cluster } : result;
+  });
+}
+
+export function describeCluster(cluster: OfferCluster): string {
+  const closest = cluster.pairs[0];
+  const lines = [
+    `${cluster.id}: ${cluster.kind}, ${cluster.members.length} offers, closest pair ${closest.a}/${closest.b} ` +
+      `at ${closest.score}; best ${cluster.best} (${cluster.best_reason})`,
+  ];
+  for (const member of cluster.members) {
+    const score = member.score != null ? `score ${member.score}` : 'not graded';
+    const marker = member.best ? '*' : ' ';
+    lines.push(`  ${marker} ${member.activity_id.padEnd(8)} ${member.kind.padEnd(9)} ${member.title} (${score})`);
+  }
+  for (const pair of cluster.pairs) {
+    const signals = Object.entries(pair.signals).map(([signal, value]) => `${signal}=${value}`);
+    lines.push(`    ${pair.a}~${pair.b} ${pair.score}: ${signals.join(' ')}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,358 @@
+/**
+ * offer_snapshots.ts
+ *
+ * History of what Klook sent for each offer. Every grading run records a snapshot of each offer's
+ * storefront-relevant fields (title, subtitle, description sections, packages, images in Klook's order,
+ * category and location) in an append-only JSONL file, adding a new version only when something changed.
+ * `diffSnapshots` turns two versions into a list of typed changes, and the re-grade policy decides which
+ * kinds of change are worth a new model call: when every change since the last grade is ignorable, the
+ * previous grade is reused instead.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { StructuredOffer } from './offer_curation.js';
+import { offerKey } from './locales.js';
+import { log } from './run_log.js';
+
+export type ChangeKind =
+  | 'title'
+  | 'subtitle'
+  | 'description'
+  | 'packages_added'
+  | 'packages_removed'
+  | 'packages_changed'
+  | 'images_added'
+  | 'images_removed'
+  | 'images_reordered'
+  | 'category'
+  | 'location';
+
+export const CHANGE_KINDS: ChangeKind[] = [
+  'title',
+  'subtitle',
+  'description',
+  'packages_added',
+  'packages_removed',
+  'packages_changed',
+  'images_added',
+  'images_removed',
+  'images_reordered',
+  'category',
+  'location',
+];
+
+export type RegradeAction = 'regrade' | 'ignore';
+export type RegradePolicy = Record<ChangeKind, RegradeAction>;
+
+// Image order is ignored by default: images are re-ranked before grading, so Klook's order rarely matters.
+export const DEFAULT_REGRADE_POLICY: RegradePolicy = {
+  title: 'regrade',
+  subtitle: 'regrade',
+  description: 'regrade',
+  packages_added: 'regrade',
+  packages_removed: 'regrade',
+  packages_changed: 'regrade',
+  images_added: 'regrade',
+  images_removed: 'regrade',
+  images_reordered: 'ignore',
+  category: 'regrade',
+  location: 'regrade',
+};
+
+export interface OfferSnapshot {
+  title: string;
+  subtitle: string;
+  what_we_love: string;
+  // Top-level `## ` sections of the rendered description; text before the first heading is "(intro)".
+  description_sections: Array<{ heading: string; text: string }>;
+  // content_hash covers the whole package summary, so pax, SKU or policy edits show as a changed package.
+  packages: Array<{ id: string; name: string; content_hash: string }>;
+  // Image URLs in Klook's order, not the ranked order used for grading.
+  images: string[];
+  category: { name: string; leaf_category_id: number | null };
+  location: { location: string; address: string; city: string; country: string };
+}
+
+export interface SnapshotRecord {
+  // locales.ts offerKey: the activity ID, suffixed with the locale for content outside DEFAULT_LOCALE.
+  activity_id: string;
+  snapshot_hash: string;
+  captured_at: string;
+  source_path: string;
+  snapshot: OfferSnapshot;
+}
+
+export interface OfferChange {
+  kind: ChangeKind;
+  // The field, description heading, package or image the change applies to.
+  field: string;
+  // Null when the item was added (before) or removed (after).
+  before: string | null;
+  after: string | null;
+}
+
+// --- Section: Snapshots ---
+function shortHash(value: unknown, length = 16): string {
+  return crypto.createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, length);
+}
+
+function splitDescription(markdown: string): Array<{ heading: string; text: string }> {
+  const sections: Array<{ heading: string; text: string }> = [];
+  for (const chunk of markdown.split(/\n\n(?=## )/)) {
+    const match = chunk.match(/^## (.*)\n?([\s\S]*)$/);
+    const heading = match ? match[1].trim() : '(intro)';
+    const text = (match ? match[2] : chunk).trim();
+    if (text || match) {
+      sections.push({ heading, text });
+    }
+  }
+  return sections;
+}
+
+export function snapshotOffer(offer: StructuredOffer): OfferSnapshot {
+  // Ranked offers carry each image's original position; unranked ones are still in Klook's order.
+  const images = [...offer.image_details]
+    .sort((a, b) => (a.analysis?.original_index ?? 0) - (b.analysis?.original_index ?? 0))
+    .map((image) => image.url)
+    .filter((url): url is string => Boolean(url));
+  return {
+    title: (offer.title || '').trim(),
+    subtitle: (offer.subtitle || '').trim(),
+    what_we_love: (offer.what_we_love || '').trim(),
+    description_sections: splitDescription(offer.description_markdown || ''),
+    packages: offer.packages.map((pkg, index) => ({
+      id: String(pkg.package_id ?? `#${index + 1}`),
+      name: (pkg.package_name || '').trim(),
+      content_hash: shortHash(pkg, 12),
+    })),
+    images,
+    category: {
+      name: (offer.category || '').trim(),
+      leaf_category_id: offer.category_detail?.leaf_category_id ?? null,
+    },
+    location: {
+      location: (offer.location || '').trim(),
+      address: (offer.address || '').trim(),
+      city: (offer.city || '').trim(),
+      country: (offer.country || '').trim(),
+    },
+  };
+}
+
+export function hashSnapshot(snapshot: OfferSnapshot): string {
+  return shortHash(snapshot);
+}
+
+// --- Section: Diffing two versions ---
+function textChange(kind: ChangeKind, field: string, before: string, after: string): OfferChange[] {
+  return before === after ? [] : [{ kind, field, before: before || null, after: after || null }];
+}
+
+function imageOrderChanged(before: string[], after: string[]): boolean {
+  const shared = new Set(before.filter((url) => after.includes(url)));
+  const order = (urls: string[]) => urls.filter((url) => shared.has(url));
+  return order(before).join('\n') !== order(after).join('\n');
+}
+
+/**
+ * Lists what changed from `before` to `after`, one entry per field, description section, package or image.
+ */
+export function diffSnapshots(before: OfferSnapshot, after: OfferSnapshot): OfferChange[] {
+  const changes: OfferChange[] = [
+    ...textChange('title', 'title', before.title, after.title),
+    ...textChange('subtitle', 'subtitle', before.subtitle, after.subtitle),
+    ...textChange('description', 'what_we_love', before.what_we_love, after.what_we_love),
+  ];
+
+  const sectionsBefore = new Map(before.description_sections.map((section) => [section.heading, section.text]));
+  const sectionsAfter = new Map(after.description_sections.map((section) => [section.heading, section.text]));
+  for (const heading of new Set([...sectionsBefore.keys(), ...sectionsAfter.keys()])) {
+    const previous = sectionsBefore.get(heading) ?? null;
+    const current = sectionsAfter.get(heading) ?? null;
+    if (previous !== current) {
+      changes.push({ kind: 'description', field: heading, before: previous, after: current });
+    }
+  }
+
+  const packagesBefore = new Map(before.packages.map((pkg) => [pkg.id, pkg]));
+  const packagesAfter = new Map(after.packages.map((pkg) => [pkg.id, pkg]));
+  for (const [id, pkg] of packagesBefore) {
+    const current = packagesAfter.get(id);
+    if (!current) {
+      changes.push({ kind: 'packages_removed', field: id, before: pkg.name, after: null });
+    } else if (current.content_hash !== pkg.content_hash) {
+      changes.push({ kind: 'packages_changed', field: id, before: pkg.name, after: current.name });
+    }
+  }
+  for (const [id, pkg] of packagesAfter) {
+    if (!packagesBefore.has(id)) {
+      changes.push({ kind: 'packages_added', field: id, before: null, after: pkg.name });
+    }
+  }
+
+  for (const url of before.images.filter((image) => !after.images.includes(image))) {
+    changes.push({ kind: 'images_removed', field: url, before: url, after: null });
+  }
+  for (const url of after.images.filter((image) => !before.images.includes(image))) {
+    changes.push({ kind: 'images_added', field: url, before: null, after: url });
+  }
+  if (imageOrderChanged(before.images, after.images)) {
+    changes.push({
+      kind: 'images_reordered',
+      field: 'images',
+      before: before.images.join('\n'),
+      after: after.images.join('\n'),
+    });
+  }
+
+  const category = (snapshot: OfferSnapshot) =>
+    snapshot.category.leaf_category_id != null
+      ? `${snapshot.category.name} (leaf ${snapshot.category.leaf_category_id})`
+      : snapshot.category.name;
+  changes.push(...textChange('category', 'category', category(before), category(after)));
+  for (const field of ['location', 'address', 'city', 'country'] as const) {
+    changes.push(...textChange('location', field, before.location[field], after.location[field]));
+  }
+  return changes;
+}
+
+function clip(text: string | null, limit = 60): string {
+  const flat = (text || '').replace(/\s+/g, ' ').trim();
+  return flat.length > limit ? `${flat.slice(0, limit - 3)}...` : flat;
+}
+
+function imageName(url: string | null): string {
+  return (url || '').split('/').pop() || '';
+}
+
+export function describeChange(change: OfferChange): string {
+  switch (change.kind) {
+    case 'description':
+      if (change.before == null) {
+        return `description section "${change.field}" added`;
+      }
+      return change.after == null
+        ? `description section "${change.field}" removed`
+        : `description section "${change.field}" edited`;
+    case 'packages_added':
+      return `package ${change.field} added: ${clip(change.after)}`;
+    case 'packages_removed':
+      return `package ${change.field} removed: ${clip(change.before)}`;
+    case 'packages_changed':
+      return `package ${change.field} changed: ${clip(change.after)}`;
+    case 'images_added':
+      return `image added: ${imageName(change.after)}`;
+    case 'images_removed':
+      return `image removed: ${imageName(change.before)}`;
+    case 'images_reordered':
+      return 'images reordered';
+    default:
+      return `${change.field}: "${clip(change.before)}" -> "${clip(change.after)}"`;
+  }
+}
+
+// --- Section: Re-grade policy ---
+/**
+ * True when a previous grade can stand despite `changes`: there is at least one change, the policy ignores
+ * every kind present, and the image the grade picked as hero is still on the offer.
+ */
+export function policyAllowsReuse(
+  changes: OfferChange[],
+  policy: RegradePolicy,
+  heroImageUrl: string | null
+): boolean {
+  if (!changes.length) {
+    return false;
+  }
+  const heroRemoved = changes.some((change) => change.kind === 'images_removed' && change.before === heroImageUrl);
+  return !heroRemoved && changes.every((change) => policy[change.kind] === 'ignore');
+}
+
+// --- Section: Snapshot store ---
+export interface SnapshotStore {
+  latest(activityId: string): SnapshotRecord | null;
+  find(activityId: string, snapshotHash: string): SnapshotRecord | null;
+  // Every recorded version of an offer, oldest first.
+  history(activityId: string): SnapshotRecord[];
+  // Records the offer's current snapshot unless it matches the latest version, and returns the current record.
+  record(offer: StructuredOffer): Promise<SnapshotRecord>;
+}
+
+/**
+ * Loads the snapshot file (missing is fine) and returns a handle that appends new versions as offers change.
+ * A torn final line from an interrupted run is skipped rather than treated as fatal.
+ */
+export async function openSnapshotStore(filePath: string): Promise<SnapshotStore> {
+  const versions = new Map<string, SnapshotRecord[]>();
+
+  let content = '';
+  try {
+    content = await fs.promises.readFile(filePath, 'utf-8');
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      throw new Error(`Failed to read offer snapshots: ${filePath}`);
+    }
+  }
+
+  const remember = (record: SnapshotRecord) => {
+    const list = versions.get(record.activity_id) ?? [];
+    list.push(record);
+    versions.set(record.activity_id, list);
+  };
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    try {
+      remember(JSON.parse(line) as SnapshotRecord);
+    } catch {
+      log.warn('snapshot_line_unreadable', `Ignoring unreadable snapshot line ${index + 1} in ${filePath}.`, {
+        file: filePath,
+        line: index + 1,
+      });
+    }
+  });
+
+  const latest = (activityId: string): SnapshotRecord | null => {
+    const list = versions.get(activityId);
+    return list ? list[list.length - 1] : null;
+  };
+
+  let directoryReady = false;
+
+  return {
+    latest,
+    find(activityId: string, snapshotHash: string): SnapshotRecord | null {
+      return versions.get(activityId)?.find((record) => record.snapshot_hash === snapshotHash) ?? null;
+    },
+    history(activityId: string): SnapshotRecord[] {
+      return [...(versions.get(activityId) ?? [])];
+    },
+    async record(offer: StructuredOffer): Promise<SnapshotRecord> {
+      const activityId = offerKey(offer);
+      const snapshot = snapshotOffer(offer);
+      const snapshotHash = hashSnapshot(snapshot);
+      const current = latest(activityId);
+      if (current?.snapshot_hash === snapshotHash) {
+        return current;
+      }
+      if (!directoryReady) {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        directoryReady = true;
+      }
+      const record: SnapshotRecord = {
+        activity_id: activityId,
+        snapshot_hash: snapshotHash,
+        captured_at: new Date().toISOString(),
+        source_path: offer.source_path,
+        snapshot,
+      };
+      remember(record);
+      await fs.promises.appendFile(filePath, `${JSON.stringify(record)}\n`, 'utf-8');
+      return record;
+    },
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * package_model.ts
+ *
+ * Structured view of Klook packages and their SKUs: pax limits, age bands, cancellation policy, voucher
+ * usage and instant confirmation. The per-offer overview feeds the grading prompt, the export columns and
+ * the target-audience checks run on the model's answer.
+ */
+
+import type { KlookPackage, KlookSku } from './klook_schema.js';
+
+// Klook uses 9999 (and occasionally 9998) for "no limit" on pax fields.
+const UNLIMITED_PAX = 9998;
+
+// SKU types that let a family book children onto the package.
+const CHILD_SKU_TYPES = ['CHILD', 'INFANT', 'TODDLER', 'YOUTH', 'FAMILY'];
+
+export type Coverage = 'all' | 'some' | 'none';
+
+export interface AgeBand {
+  sku_type: string;
+  label: string;
+  min_age: number | null;
+  max_age: number | null;
+}
+
+export interface SkuSummary {
+  sku_id: number;
+  sku_type: string;
+  title: string;
+  age_band: AgeBand;
+  min_pax: number | null;
+  max_pax: number | null;
+  required: boolean;
+  instant_confirmation: boolean | null;
+}
+
+export interface PackageSummary {
+  package_id?: number;
+  package_name?: string;
+  sections_markdown?: string;
+  min_pax: number | null;
+  max_pax: number | null;
+  cancellation_policy: string;
+  voucher_usage: string;
+  is_open_date: boolean | null;
+  instant_confirmation: boolean;
+  time_zone: string | null;
+  skus: SkuSummary[];
+}
+
+export interface PackageOverview {
+  package_count: number;
+  age_bands: AgeBand[];
+  has_child_sku: boolean;
+  min_pax: number | null;
+  max_pax: number | null;
+  cancellation_summary: string;
+  instant_confirmation: Coverage;
+  open_date: Coverage;
+}
+
+// --- Section: Packages and SKUs ---
+function paxLimit(value: number | undefined): number | null {
+  if (value == null || value <= 0 || value >= UNLIMITED_PAX) {
+    return null;
+  }
+  return value;
+}
+
+function ageBandFor(sku: KlookSku): AgeBand {
+  const skuType = (sku.sku_type || 'UNKNOWN').trim().toUpperCase();
+  // Adult SKUs come through as 0-0; treat zero bounds as "not specified".
+  const minAge = sku.min_age ? sku.min_age : null;
+  const maxAge = sku.max_age ? sku.max_age : null;
+  const name = skuType.charAt(0) + skuType.slice(1).toLowerCase();
+  const range = minAge != null || maxAge != null ? ` ${minAge ?? 0}-${maxAge ?? '+'}` : '';
+  return { sku_type: skuType, label: `${name}${range}`, min_age: minAge, max_age: maxAge };
+}
+
+function summariseSku(sku: KlookSku): SkuSummary {
+  return {
+    sku_id: sku.sku_id,
+    sku_type: (sku.sku_type || 'UNKNOWN').trim().toUpperCase(),
+    title: (sku.title || '').trim(),
+    age_band: ageBandFor(sku),
+    min_pax: paxLimit(sku.sku_min_pax),
+    max_pax: paxLimit(sku.sku_max_pax),
+    required: Boolean(sku.required),
+    instant_confirmation: sku.instant == null ? null : sku.instant === 1,
+  };
+}
+
+export function summarisePackage(pkg: KlookPackage, sectionsMarkdown: string): PackageSummary {
+  const skus = (pkg.sku_list || []).map(summariseSku);
+  // SKU-level instant flags win when present; the package flag covers SKUs that do not set one.
+  const skuInstant = skus.map((sku) => sku.instant_confirmation).filter((flag): flag is boolean => flag != null);
+  return {
+    package_id: pkg.package_id,
+    package_name: pkg.package_name,
+    sections_markdown: sectionsMarkdown,
+    min_pax: paxLimit(pkg.package_min_pax),
+    max_pax: paxLimit(pkg.package_max_pax),
+    cancellation_policy: (pkg.cancellation_type_multilang || '').trim() || 'Not specified',
+    voucher_usage: (pkg.voucher_usage_multilang || '').trim() || 'Not specified',
+    is_open_date: pkg.is_open_date ?? null,
+    instant_confirmation: skuInstant.length ? skuInstant.every(Boolean) : pkg.instant === 1,
+    time_zone: pkg.time_zone || null,
+    skus,
+  };
+}
+
+function coverage(flags: boolean[]): Coverage {
+  if (!flags.length || flags.every((flag) => !flag)) {
+    return 'none';
+  }
+  return flags.every(Boolean) ? 'all' : 'some';
+}
+
+export function summariseCancellation(packages: PackageSummary[]): string {
+  const counts = new Map<string, number>();
+  for (const pkg of packages) {
+    counts.set(pkg.cancellation_policy, (counts.get(pkg.cancellation_policy) ?? 0) + 1);
+  }
+  if (counts.size <= 1) {
+    return [...counts.keys()][0] ?? 'No packages';
+  }
+  return [...counts.entries()]
+    .map(([policy, count]) => `${policy} (${count} of ${packages.length} packages)`)
+    .join('; ');
+}
+
+export function summariseOffer(packages: PackageSummary[]): PackageOverview {
+  const bands = new Map<string, AgeBand>();
+  for (const sku of packages.flatMap((pkg) => pkg.skus)) {
+    bands.set(sku.age_band.label, sku.age_band);
+  }
+  const minPax = packages.map((pkg) => pkg.min_pax);
+  const maxPax = packages.map((pkg) => pkg.max_pax);
+
+  return {
+    package_count: packages.length,
+    age_bands: [...bands.values()],
+    has_child_sku: [...bands.values()].some((band) => CHILD_SKU_TYPES.includes(band.sku_type)),
+    // One package without a minimum makes the offer bookable for a single traveller.
+    min_pax: minPax.length && minPax.every((value) => value != null) ? Math.min(...(minPax as number[])) : null,
+    // One unlimited package makes the offer unlimited.
+    max_pax: maxPax.length && maxPax.every((value) => value != null) ? Math.max(...(maxPax as number[])) : null,
+    cancellation_summary: summariseCancellation(packages),
+    instant_confirmation: coverage(packages.map((pkg) => pkg.instant_confirmation)),
+    open_date: coverage(packages.map((pkg) => pkg.is_open_date === true)),
+  };
+}
+
+// --- Section: Formatting ---
+export function formatPaxRange(min: number | null, max: number | null): string {
+  if (min == null && max == null) {
+    return 'any';
+  }
+  return `${min ?? 1}-${max ?? 'no limit'}`;
+}
+
+export function describePackage(pkg: PackageSummary): string {
+  const tickets = pkg.skus.map((sku) => sku.age_band.label).join(', ') || 'none listed';
+  return [
+    `Pax: ${formatPaxRange(pkg.min_pax, pkg.max_pax)}`,
+    `Tickets: ${tickets}`,
+    `Cancellation: ${pkg.cancellation_policy}`,
+    `Instant confirmation: ${pkg.instant_confirmation ? 'yes' : 'no'}`,
+    `Open date: ${pkg.is_open_date == null ? 'unknown' : pkg.is_open_date ? 'yes' : 'no'}`,
+    `Voucher: ${pkg.voucher_usage}`,
+    `Time zone: ${pkg.time_zone || 'unknown'}`,
+  ].join(' | ');
+}
+
+export function describeOverview(overview: PackageOverview): string {
+  return [
+    `Age bands: ${overview.age_bands.map((band) => band.label).join(', ') || 'none listed'}`,
+    `Child ticket: ${overview.has_child_sku ? 'yes' : 'no'}`,
+    `Pax: ${formatPaxRange(overview.min_pax, overview.max_pax)}`,
+    `Cancellation: ${overview.cancellation_summary}`,
+    `Instant confirmation: ${overview.instant_confirmation} packages`,
+  ].join(' | ');
+}
+
+// --- Section: Target-audience checks ---
+/**
+ * Checks the model's target audiences against what the packages can actually sell. Returns one message per
+ * audience that the packages do not support.
+ */
+export function checkTargetAudiences(audiences: string[], overview: PackageOverview): string[] {
+  const flags: string[] = [];
+  if (!overview.package_count) {
+    return flags;
+  }
+  if (audiences.includes('Family') && !overview.has_child_sku) {
+    flags.push('Family audience but no package sells a child or infant ticket.');
+  }
+  if (audiences.includes('Solo') && overview.min_pax != null && overview.min_pax > 1) {
+    flags.push(`Solo audience but every package needs at least ${overview.min_pax} pax.`);
+  }
+  if (audiences.includes('Couple') && overview.max_pax != null && overview.max_pax < 2) {
+    flags.push('Couple audience but packages allow only 1 pax.');
+  }
+  if (audiences.includes('Group') && overview.max_pax != null && overview.max_pax < 3) {
+    flags.push(`Group audience but packages allow at most ${overview.max_pax} pax.`);
+  }
+  return flags;
+}
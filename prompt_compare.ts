@@ -0,0 +1,190 @@
+/**
+ * prompt_compare.ts
+ *
+ * A/B comparison of two grading variants (prompt versions, models or both) over the same offer set. Each
+ * variant is a normal grading run, so unchanged offers come from the cache and each run writes its own
+ * manifest. The report pairs results by activity ID and measures score deltas, category agreement, hero
+ * agreement and the model cost of each variant's grades.
+ */
+
+import type { CurationConfig } from './curation_config.js';
+import { GradingResult, RunOptions, runGrading } from './offer_curation.js';
+import { addUsage, emptyUsage, estimateCost, priceFor } from './run_manifest.js';
+import type { TokenUsage } from './grading_providers.js';
+import { log } from './run_log.js';
+
+export interface CompareVariant {
+  label: string;
+  config: CurationConfig;
+}
+
+export interface VariantSummary {
+  label: string;
+  prompt_version: string;
+  model: string;
+  run_id: string;
+  valid: number;
+  mean_score: number | null;
+  usage: TokenUsage;
+  // Cost of producing the variant's grades, including ones reused from the cache; null without a price.
+  cost_usd: number | null;
+}
+
+export interface OfferComparison {
+  activity_id: string;
+  score_a: number | null;
+  score_b: number | null;
+  // b minus a; null unless both variants produced a valid grade.
+  score_delta: number | null;
+  // Jaccard overlap of the two category lists (1 = identical).
+  category_overlap: number | null;
+  categories_agree: boolean | null;
+  hero_agree: boolean | null;
+}
+
+export interface ComparisonReport {
+  a: VariantSummary;
+  b: VariantSummary;
+  offers: OfferComparison[];
+  summary: {
+    offers: number;
+    // Offers with a valid grade from both variants; the rates below are over these.
+    compared: number;
+    mean_score_delta: number | null;
+    mean_abs_score_delta: number | null;
+    score_agreement: number | null;
+    category_agreement: number | null;
+    mean_category_overlap: number | null;
+    hero_agreement: number | null;
+  };
+}
+
+// --- Section: Pairwise measures ---
+function jaccard(a: string[], b: string[]): number {
+  const union = new Set([...a, ...b]);
+  if (!union.size) {
+    return 1;
+  }
+  return a.filter((item) => b.includes(item)).length / union.size;
+}
+
+function mean(values: number[]): number | null {
+  if (!values.length) {
+    return null;
+  }
+  return Math.round((values.reduce((total, value) => total + value, 0) / values.length) * 1000) / 1000;
+}
+
+function compareOffer(activityId: string, a: GradingResult | undefined, b: GradingResult | undefined): OfferComparison {
+  const scoreA = a?.valid ? a.score : null;
+  const scoreB = b?.valid ? b.score : null;
+  const overlap = a?.valid && b?.valid ? jaccard(a.categories, b.categories) : null;
+  return {
+    activity_id: activityId,
+    score_a: scoreA,
+    score_b: scoreB,
+    score_delta: scoreA != null && scoreB != null ? scoreB - scoreA : null,
+    category_overlap: overlap == null ? null : Math.round(overlap * 1000) / 1000,
+    categories_agree: overlap == null ? null : overlap === 1,
+    hero_agree: a?.valid && b?.valid ? a.hero_image_url === b.hero_image_url : null,
+  };
+}
+
+function summariseVariant(variant: CompareVariant, runId: string, results: GradingResult[]): VariantSummary {
+  const price = priceFor(variant.config.model, variant.config.priceTable);
+  const valid = results.filter((result) => result.valid && result.score != null);
+  const usage = results.reduce((total, result) => addUsage(total, result.usage), emptyUsage());
+  return {
+    label: variant.label,
+    prompt_version: variant.config.promptVersion,
+    model: variant.config.model,
+    run_id: runId,
+    valid: valid.length,
+    mean_score: mean(valid.map((result) => result.score as number)),
+    usage,
+    cost_usd: price ? estimateCost(usage, price) : null,
+  };
+}
+
+// --- Section: Running both variants ---
+/**
+ * Grades the selected offers under both variants (one after the other, so rate limits are not shared) and
+ * pairs the results.
+ */
+export async function compareVariants(
+  a: CompareVariant,
+  b: CompareVariant,
+  options: RunOptions = {}
+): Promise<ComparisonReport> {
+  log.info('compare_variant', `Grading variant A (${a.label}).`, { variant: 'A', label: a.label });
+  const runA = await runGrading(a.config, options);
+  log.info('compare_variant', `Grading variant B (${b.label}).`, { variant: 'B', label: b.label });
+  const runB = await runGrading(b.config, options);
+
+  const byIdA = new Map(runA.results.map((result) => [String(result.activity_id ?? ''), result]));
+  const byIdB = new Map(runB.results.map((result) => [String(result.activity_id ?? ''), result]));
+  const ids = [...new Set([...byIdA.keys(), ...byIdB.keys()])].sort((x, y) => x.localeCompare(y));
+  const offers = ids.map((id) => compareOffer(id, byIdA.get(id), byIdB.get(id)));
+  const compared = offers.filter((offer) => offer.score_delta != null);
+
+  const rate = (values: Array<boolean | null>) => mean(values.filter((value) => value != null).map(Number));
+  return {
+    a: summariseVariant(a, runA.manifest.run_id, runA.results),
+    b: summariseVariant(b, runB.manifest.run_id, runB.results),
+    offers,
+    summary: {
+      offers: offers.length,
+      compared: compared.length,
+      mean_score_delta: mean(compared.map((offer) => offer.score_delta as number)),
+      mean_abs_score_delta: mean(compared.map((offer) => Math.abs(offer.score_delta as number))),
+      score_agreement: rate(compared.map((offer) => offer.score_delta === 0)),
+      category_agreement: rate(compared.map((offer) => offer.categories_agree)),
+      mean_category_overlap: mean(compared.map((offer) => offer.category_overlap as number)),
+      hero_agreement: rate(compared.map((offer) => offer.hero_agree)),
+    },
+  };
+}
+
+// --- Section: Console report ---
+function formatRate(value: number | null): string {
+  return value == null ? 'n/a' : `${Math.round(value * 100)}%`;
+}
+
+function formatVariant(name: string, variant: VariantSummary): string {
+  const cost = variant.cost_usd == null ? `no price for ${variant.model}` : `~$${variant.cost_usd.toFixed(4)}`;
+  return (
+    `${name} ${variant.label}: prompt ${variant.prompt_version}, model ${variant.model}, run ${variant.run_id}, ` +
+    `${variant.valid} valid, mean score ${variant.mean_score ?? 'n/a'}, ` +
+    `${variant.usage.input_tokens} input / ${variant.usage.output_tokens} output tokens, ${cost}`
+  );
+}
+
+export function formatComparison(report: ComparisonReport): string {
+  const show = (value: unknown) => (value == null ? '-' : String(value));
+  const lines = [formatVariant('A', report.a), formatVariant('B', report.b), ''];
+  lines.push(['activity_id'.padEnd(12), 'A', 'B', 'delta', 'categories', 'hero'].join('  '));
+  for (const offer of report.offers) {
+    const categories = offer.categories_agree == null ? '-' : offer.categories_agree ? 'same' : offer.category_overlap;
+    lines.push(
+      [
+        offer.activity_id.padEnd(12),
+        show(offer.score_a),
+        show(offer.score_b),
+        show(offer.score_delta).padStart(5),
+        String(categories).padEnd(10),
+        offer.hero_agree == null ? '-' : offer.hero_agree ? 'same' : 'different',
+      ].join('  ')
+    );
+  }
+  const { summary } = report;
+  lines.push(
+    '',
+    `${summary.compared} of ${summary.offers} offers graded validly by both variants. ` +
+      `Mean score delta ${summary.mean_score_delta ?? 'n/a'} ` +
+      `(mean absolute ${summary.mean_abs_score_delta ?? 'n/a'}); ` +
+      `scores agree ${formatRate(summary.score_agreement)}, ` +
+      `categories agree ${formatRate(summary.category_agreement)} ` +
+      `(mean overlap ${summary.mean_category_overlap ?? 'n/a'}), heroes agree ${formatRate(summary.hero_agreement)}.`
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,107 @@
+/**
+ * prompt_templates.ts
+ *
+ * Versioned prompt templates. Each version is a directory under `prompts/` holding `system.md` (the model
+ * instructions), `image_guidance.md` (hero image rules, inserted into the system prompt) and `offer.md`
+ * (the per-offer prompt layout). Templates use `{{name}}` variables; the system prompt gets `taxonomy`,
+ * `audiences` and `image_guidance`, and the offer prompt gets the fields filled in by `buildOfferPrompt`.
+ * `rewrite_system.md` and `rewrite_offer.md` hold the house-style copy rewrite prompts used by copy_rewrite.ts.
+ * Files are used verbatim, so a trailing newline is part of the prompt and changes its hash.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { renderTaxonomyForPrompt, TARGET_AUDIENCES } from './taxonomy.js';
+
+export const DEFAULT_PROMPT_VERSION = 'v1';
+
+export interface PromptTemplate {
+  version: string;
+  // Fully rendered model instructions.
+  system: string;
+  // Offer prompt layout, rendered per offer with `renderTemplate`.
+  offer: string;
+}
+
+// The copy rewrite prompts of a version (rewrite_system.md and rewrite_offer.md).
+export interface RewriteTemplate {
+  version: string;
+  system: string;
+  offer: string;
+}
+
+const loaded = new Map<string, PromptTemplate>();
+const loadedRewrites = new Map<string, RewriteTemplate>();
+
+export function renderTemplate(template: string, variables: Record<string, string>, name: string): string {
+  return template.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (_, variable: string) => {
+    if (!(variable in variables)) {
+      throw new Error(`Prompt template ${name} uses unknown variable {{${variable}}}.`);
+    }
+    return variables[variable];
+  });
+}
+
+export function listPromptVersions(directory: string): string[] {
+  try {
+    return fs
+      .readdirSync(directory, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && fs.existsSync(path.join(directory, entry.name, 'system.md')))
+      .map((entry) => entry.name)
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+function readTemplateFile(directory: string, version: string, file: string): string {
+  const filePath = path.join(directory, version, file);
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    const known = listPromptVersions(directory);
+    throw new Error(
+      `Prompt version "${version}" is missing ${file} (${filePath}). ` +
+        `Available versions: ${known.length ? known.join(', ') : 'none'}.`
+    );
+  }
+}
+
+/**
+ * Reads and renders a prompt version once per process; later calls return the same object.
+ */
+export function loadPromptTemplate(directory: string, version: string): PromptTemplate {
+  const key = path.join(directory, version);
+  const cached = loaded.get(key);
+  if (cached) {
+    return cached;
+  }
+  const system = renderTemplate(
+    readTemplateFile(directory, version, 'system.md'),
+    {
+      taxonomy: renderTaxonomyForPrompt(),
+      audiences: TARGET_AUDIENCES.map((audience) => `- ${audience}`).join('\n'),
+      image_guidance: readTemplateFile(directory, version, 'image_guidance.md'),
+    },
+    `${version}/system.md`
+  );
+  const template: PromptTemplate = { version, system, offer: readTemplateFile(directory, version, 'offer.md') };
+  loaded.set(key, template);
+  return template;
+}
+
+export function loadRewriteTemplate(directory: string, version: string): RewriteTemplate {
+  const key = path.join(directory, version);
+  const cached = loadedRewrites.get(key);
+  if (cached) {
+    return cached;
+  }
+  const system = readTemplateFile(directory, version, 'rewrite_system.md');
+  const template: RewriteTemplate = {
+    version,
+    system: renderTemplate(system, {}, `${version}/rewrite_system.md`),
+    offer: readTemplateFile(directory, version, 'rewrite_offer.md'),
+  };
+  loadedRewrites.set(key, template);
+  return template;
+}
@@ -0,0 +1,284 @@
+/**
+ * retry_policy.ts
+ *
+ * Error classification, exponential backoff and adaptive concurrency for grading provider calls. Rate
+ * limits and transient server failures are retried (honouring Retry-After); everything else fails fast.
+ */
+
+import type { GradingProvider, GradingRequest, GradingResponse } from './grading_providers.js';
+import { log } from './run_log.js';
+
+// --- Section: Error classification ---
+export type ErrorKind = 'rate_limit' | 'server' | 'network' | 'quota' | 'fatal';
+
+export interface ClassifiedError {
+  kind: ErrorKind;
+  retryable: boolean;
+  status: number | null;
+  retryAfterMs: number | null;
+  message: string;
+}
+
+export class GradingCallError extends Error {
+  readonly kind: ErrorKind;
+  readonly status: number | null;
+  readonly attempts: number;
+
+  constructor(classified: ClassifiedError, attempts: number, cause: unknown) {
+    super(classified.message, { cause });
+    this.name = 'GradingCallError';
+    this.kind = classified.kind;
+    this.status = classified.status;
+    this.attempts = attempts;
+  }
+}
+
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'ENOTFOUND', 'EAI_AGAIN']);
+
+function readHeader(headers: unknown, name: string): string | null {
+  if (!headers || typeof headers !== 'object') {
+    return null;
+  }
+  if (typeof (headers as { get?: unknown }).get === 'function') {
+    const value = (headers as { get(key: string): string | null }).get(name);
+    return value ?? null;
+  }
+  const record = headers as Record<string, unknown>;
+  const value = record[name] ?? record[name.toLowerCase()];
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Reads `retry-after-ms` or `retry-after` (seconds or an HTTP date) from an API error's headers.
+ */
+export function parseRetryAfter(headers: unknown, now = Date.now()): number | null {
+  const milliseconds = readHeader(headers, 'retry-after-ms');
+  if (milliseconds && Number.isFinite(Number(milliseconds))) {
+    return Math.max(0, Number(milliseconds));
+  }
+
+  const retryAfter = readHeader(headers, 'retry-after');
+  if (!retryAfter) {
+    return null;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export function classifyError(error: any): ClassifiedError {
+  const status = typeof error?.status === 'number' ? error.status : null;
+  const code = error?.code ?? error?.error?.code ?? error?.cause?.code;
+  const message = String(error?.message || error);
+  const retryAfterMs = parseRetryAfter(error?.headers);
+
+  if (status === 429) {
+    // Exhausted billing quota also arrives as a 429 but will not clear by waiting.
+    if (code === 'insufficient_quota') {
+      return { kind: 'quota', retryable: false, status, retryAfterMs, message };
+    }
+    return { kind: 'rate_limit', retryable: true, status, retryAfterMs, message };
+  }
+  if (status != null && (status === 408 || status === 409 || status >= 500)) {
+    return { kind: 'server', retryable: true, status, retryAfterMs, message };
+  }
+  if (status != null) {
+    return { kind: 'fatal', retryable: false, status, retryAfterMs, message };
+  }
+
+  const name = String(error?.name || '');
+  if (
+    name === 'APIConnectionError' ||
+    name === 'APIConnectionTimeoutError' ||
+    NETWORK_ERROR_CODES.has(String(code)) ||
+    /fetch failed|socket hang up/i.test(message)
+  ) {
+    return { kind: 'network', retryable: true, status: null, retryAfterMs, message };
+  }
+
+  return { kind: 'fatal', retryable: false, status: null, retryAfterMs, message };
+}
+
+// --- Section: Backoff schedule ---
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Exponential backoff with full jitter. A server-supplied Retry-After is treated as a lower bound.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: RetryOptions,
+  retryAfterMs: number | null,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  const jittered = Math.round(random() * ceiling);
+  return retryAfterMs != null ? Math.max(retryAfterMs, jittered) : jittered;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// --- Section: Adaptive concurrency limiter ---
+export interface AdaptiveLimiter {
+  readonly limit: number;
+  run<T>(task: () => Promise<T>): Promise<T>;
+  // startedAt is when the rate-limited call began; calls already in flight at the last reduction are ignored.
+  onRateLimited(retryAfterMs: number | null, startedAt: number): void;
+  onSuccess(): void;
+}
+
+export interface AdaptiveLimiterOptions {
+  max: number;
+  min?: number;
+  // Consecutive successes required before the limit grows by one slot.
+  recoverAfter?: number;
+}
+
+/**
+ * Additive-increase / multiplicative-decrease limiter: a rate limit halves the number of in-flight calls
+ * and pauses new ones until Retry-After passes; steady successes win the slots back one at a time.
+ */
+export function createAdaptiveLimiter(options: AdaptiveLimiterOptions): AdaptiveLimiter {
+  const max = Math.max(1, Math.trunc(options.max));
+  const min = Math.min(max, Math.max(1, Math.trunc(options.min ?? 1)));
+  const recoverAfter = Math.max(1, Math.trunc(options.recoverAfter ?? 5));
+
+  let limit = max;
+  let active = 0;
+  let successStreak = 0;
+  let resumeAt = 0;
+  let reducedAt = 0;
+  let drainTimer: NodeJS.Timeout | null = null;
+  const waiters: Array<() => void> = [];
+
+  function drain(): void {
+    const delay = resumeAt - Date.now();
+    if (delay > 0) {
+      if (!drainTimer) {
+        drainTimer = setTimeout(() => {
+          drainTimer = null;
+          drain();
+        }, delay);
+      }
+      return;
+    }
+    while (active < limit && waiters.length) {
+      active += 1;
+      waiters.shift()?.();
+    }
+  }
+
+  function acquire(): Promise<void> {
+    return new Promise((resolve) => {
+      waiters.push(resolve);
+      drain();
+    });
+  }
+
+  function release(): void {
+    active -= 1;
+    drain();
+  }
+
+  return {
+    get limit() {
+      return limit;
+    },
+    async run<T>(task: () => Promise<T>): Promise<T> {
+      await acquire();
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+    onRateLimited(retryAfterMs: number | null, startedAt: number): void {
+      successStreak = 0;
+      if (retryAfterMs != null) {
+        resumeAt = Math.max(resumeAt, Date.now() + retryAfterMs);
+      }
+      // The other calls in flight when one 429 arrives hit the same rate-limit window: halve once for all of them.
+      if (startedAt <= reducedAt) {
+        return;
+      }
+      const previous = limit;
+      limit = Math.max(min, Math.floor(limit / 2));
+      reducedAt = Date.now();
+      if (limit !== previous) {
+        log.warn('concurrency_reduced', `Rate limited; reducing grading concurrency from ${previous} to ${limit}.`, {
+          from: previous,
+          to: limit,
+        });
+      }
+    },
+    onSuccess(): void {
+      successStreak += 1;
+      if (limit < max && successStreak >= recoverAfter) {
+        limit += 1;
+        successStreak = 0;
+        log.info('concurrency_recovered', `Recovering grading concurrency to ${limit}.`, { to: limit });
+        drain();
+      }
+    },
+  };
+}
+
+// --- Section: Retrying provider decorator ---
+/**
+ * Wraps a provider so every call goes through the limiter and retryable failures back off and retry.
+ * Responses carry the number of calls made; exhausted or fatal failures throw a GradingCallError.
+ */
+export function createRetryingProvider(
+  inner: GradingProvider,
+  limiter: AdaptiveLimiter,
+  options: RetryOptions
+): GradingProvider {
+  return {
+    name: inner.name,
+    async grade(request: GradingRequest): Promise<GradingResponse> {
+      for (let attempt = 1; ; attempt += 1) {
+        let startedAt = Date.now();
+        try {
+          const response = await limiter.run(() => {
+            startedAt = Date.now();
+            return inner.grade(request);
+          });
+          limiter.onSuccess();
+          return { ...response, attempts: attempt };
+        } catch (error) {
+          const classified = classifyError(error);
+          if (classified.kind === 'rate_limit') {
+            limiter.onRateLimited(classified.retryAfterMs, startedAt);
+          }
+          if (!classified.retryable || attempt >= options.maxAttempts) {
+            throw new GradingCallError(classified, attempt, error);
+          }
+          const delay = computeBackoffDelay(attempt, options, classified.retryAfterMs);
+          log.warn(
+            'call_retry',
+            `Retrying activity ${request.activity_id} after ${classified.kind} error` +
+              `${classified.status ? ` (${classified.status})` : ''} in ${(delay / 1000).toFixed(1)}s ` +
+              `(attempt ${attempt + 1}/${options.maxAttempts}).`,
+            {
+              error_kind: classified.kind,
+              status: classified.status ?? null,
+              delay_ms: delay,
+              attempt: attempt + 1,
+              max_attempts: options.maxAttempts,
+            }
+          );
+          await sleep(delay);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,291 @@
+/**
+ * review_store.ts
+ *
+ * Human review layer over grading results. Every reviewer decision (accept the model's value for a field,
+ * or override it, with an optional note) is appended to a JSONL log, so the full history survives and the
+ * latest decision per field wins; a `clear` decision withdraws the field's earlier ones. Decisions are merged
+ * into results before export, and a `status` decision (e.g. CURATED) replaces the offer's feed status for run
+ * filtering. Statuses the approval policy records (`decide`) set the status but do not count as review.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { POLICY_REVIEWER } from './approval_policy.js';
+import type { GradingResult, JsonValue, StructuredOffer } from './offer_curation.js';
+import { checkTargetAudiences } from './package_model.js';
+import { log } from './run_log.js';
+import { CATEGORY_LEAVES, isCategoryMismatch, TARGET_AUDIENCES } from './taxonomy.js';
+
+export type ReviewField = 'score' | 'categories' | 'target_audiences' | 'hero_image_url' | 'status';
+export type ReviewAction = 'accept' | 'override' | 'clear';
+export type ReviewState = 'unreviewed' | 'partial' | 'reviewed' | 'stale';
+
+export const REVIEW_FIELDS: ReviewField[] = ['score', 'categories', 'target_audiences', 'hero_image_url', 'status'];
+// Fields graded by the model; an offer is fully reviewed once each has a decision.
+const GRADED_FIELDS: ReviewField[] = ['score', 'categories', 'target_audiences', 'hero_image_url'];
+
+export interface ReviewDecision {
+  activity_id: string;
+  field: ReviewField;
+  action: ReviewAction;
+  // For accept, the model value at the time of review; for override, the reviewer's value; null for clear.
+  value: JsonValue;
+  note: string;
+  reviewer: string;
+  decided_at: string;
+}
+
+export interface ReviewSummary {
+  state: ReviewState;
+  status: string | null;
+  overridden_fields: ReviewField[];
+  // Accepted fields whose model value has changed since the decision (e.g. after a re-grade).
+  stale_fields: ReviewField[];
+  reviewers: string[];
+  notes: string[];
+}
+
+export interface ReviewStore {
+  readonly size: number;
+  history(activityId: string): ReviewDecision[];
+  latest(activityId: string): Map<ReviewField, ReviewDecision>;
+  statusFor(activityId: string): string | null;
+  record(decision: Omit<ReviewDecision, 'decided_at'>): Promise<ReviewDecision>;
+}
+
+// --- Section: Field values ---
+function parseList(raw: string, allowed: string[], field: string): string[] {
+  const items = raw
+    .split(';')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  const unknown = items.filter((item) => !allowed.includes(item));
+  if (unknown.length) {
+    throw new Error(`Unknown ${field}: ${unknown.map((item) => `"${item}"`).join(', ')}.`);
+  }
+  return [...new Set(items)];
+}
+
+/**
+ * Parses an override typed on the command line. List items are separated by "; ", and "none" clears
+ * the hero image.
+ */
+export function parseReviewValue(field: ReviewField, raw: string): JsonValue {
+  const trimmed = raw.trim();
+  switch (field) {
+    case 'score': {
+      const score = Number(trimmed);
+      if (!Number.isInteger(score) || score < 0 || score > 5) {
+        throw new Error(`score must be an integer from 0 to 5, got "${raw}".`);
+      }
+      return score;
+    }
+    case 'categories':
+      return parseList(trimmed, CATEGORY_LEAVES, 'categories');
+    case 'target_audiences':
+      return parseList(trimmed, TARGET_AUDIENCES, 'target audiences');
+    case 'hero_image_url':
+      if (trimmed.toLowerCase() === 'none') {
+        return null;
+      }
+      if (!/^https?:\/\//.test(trimmed)) {
+        throw new Error(`hero_image_url must be an http(s) URL or "none", got "${raw}".`);
+      }
+      return trimmed;
+    case 'status':
+      if (!/^[A-Za-z_]+$/.test(trimmed)) {
+        throw new Error(`status must be a single word such as CURATED, got "${raw}".`);
+      }
+      return trimmed.toUpperCase();
+  }
+}
+
+export function modelValue(result: GradingResult, field: ReviewField): JsonValue {
+  switch (field) {
+    case 'score':
+      return result.score;
+    case 'categories':
+      return result.categories;
+    case 'target_audiences':
+      return result.target_audiences;
+    case 'hero_image_url':
+      return result.hero_image_url;
+    case 'status':
+      return null;
+  }
+}
+
+function sameValue(a: JsonValue, b: JsonValue): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// --- Section: Store ---
+/**
+ * Loads the review log (missing is fine) and returns a handle that appends new decisions. A torn final
+ * line from an interrupted write is skipped with a warning, as in the grading cache.
+ */
+export async function openReviewStore(filePath: string): Promise<ReviewStore> {
+  const decisions = new Map<string, ReviewDecision[]>();
+  let size = 0;
+
+  let content = '';
+  try {
+    content = await fs.promises.readFile(filePath, 'utf-8');
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      throw new Error(`Failed to read review log: ${filePath}`);
+    }
+  }
+
+  const add = (decision: ReviewDecision) => {
+    const list = decisions.get(decision.activity_id) ?? [];
+    list.push(decision);
+    decisions.set(decision.activity_id, list);
+    size += 1;
+  };
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    try {
+      add(JSON.parse(line) as ReviewDecision);
+    } catch {
+      log.warn('review_line_unreadable', `Ignoring unreadable review log line ${index + 1} in ${filePath}.`, {
+        file: filePath,
+        line: index + 1,
+      });
+    }
+  });
+
+  const latest = (activityId: string) => {
+    const byField = new Map<ReviewField, ReviewDecision>();
+    for (const decision of decisions.get(activityId) ?? []) {
+      if (decision.action === 'clear') {
+        byField.delete(decision.field);
+      } else {
+        byField.set(decision.field, decision);
+      }
+    }
+    return byField;
+  };
+
+  let directoryReady = false;
+
+  return {
+    get size() {
+      return size;
+    },
+    history(activityId: string): ReviewDecision[] {
+      return [...(decisions.get(activityId) ?? [])];
+    },
+    latest,
+    statusFor(activityId: string): string | null {
+      const decision = latest(activityId).get('status');
+      return typeof decision?.value === 'string' ? decision.value : null;
+    },
+    async record(input: Omit<ReviewDecision, 'decided_at'>): Promise<ReviewDecision> {
+      if (!REVIEW_FIELDS.includes(input.field)) {
+        throw new Error(`Unknown review field "${input.field}". Expected one of ${REVIEW_FIELDS.join(', ')}.`);
+      }
+      if (input.field === 'status' && input.action === 'accept') {
+        throw new Error('status has no model value to accept; override it instead (e.g. --set CURATED).');
+      }
+      if (!directoryReady) {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        directoryReady = true;
+      }
+      const decision: ReviewDecision = { ...input, decided_at: new Date().toISOString() };
+      add(decision);
+      await fs.promises.appendFile(filePath, `${JSON.stringify(decision)}\n`, 'utf-8');
+      return decision;
+    },
+  };
+}
+
+// --- Section: Merging decisions into results and offers ---
+/**
+ * Applies the latest decision per field to a result. Overrides replace the model's value and re-run the
+ * checks that depend on it; accepted values pass through, and are marked stale if the model has since
+ * changed its answer.
+ */
+export function applyReview(result: GradingResult, store: ReviewStore): GradingResult {
+  const activityId = String(result.activity_id ?? '');
+  // Statuses the approval policy recorded are reported as the status only; they are not a reviewer's decision.
+  const decisions = new Map(
+    [...store.latest(activityId)].filter(([, decision]) => decision.reviewer !== POLICY_REVIEWER)
+  );
+  const merged: GradingResult = { ...result };
+  const overridden: ReviewField[] = [];
+  const stale: ReviewField[] = [];
+
+  for (const [field, decision] of decisions) {
+    if (decision.action === 'accept') {
+      if (!sameValue(decision.value, modelValue(result, field))) {
+        stale.push(field);
+      }
+      continue;
+    }
+    overridden.push(field);
+    switch (field) {
+      case 'score':
+        merged.score = decision.value as number;
+        break;
+      case 'categories':
+        merged.categories = decision.value as string[];
+        merged.category_mismatch = isCategoryMismatch(merged.categories, merged.suggested_categories);
+        break;
+      case 'target_audiences':
+        merged.target_audiences = decision.value as string[];
+        merged.audience_flags = checkTargetAudiences(merged.target_audiences, merged.package_overview);
+        break;
+      case 'hero_image_url':
+        // The model's index and hero checks describe its own pick, not the reviewer's.
+        merged.hero_image_url = decision.value as string | null;
+        merged.hero_image_index = null;
+        merged.hero_image_reason = decision.note || 'Set by reviewer.';
+        merged.hero_flags = [];
+        break;
+      case 'status':
+        break;
+    }
+  }
+
+  const decided = GRADED_FIELDS.filter((field) => decisions.has(field));
+  let state: ReviewState = 'unreviewed';
+  if (stale.length) {
+    state = 'stale';
+  } else if (decided.length === GRADED_FIELDS.length) {
+    state = 'reviewed';
+  } else if (decisions.size) {
+    state = 'partial';
+  }
+
+  const all = store.history(activityId).filter((decision) => decision.reviewer !== POLICY_REVIEWER);
+  merged.review = {
+    state,
+    status: store.statusFor(activityId),
+    overridden_fields: overridden,
+    stale_fields: stale,
+    reviewers: [...new Set(all.map((decision) => decision.reviewer))],
+    notes: [...decisions.values()]
+      .filter((decision) => decision.note)
+      .map((decision) => `${decision.field}: ${decision.note}`),
+  };
+  return merged;
+}
+
+export function applyReviews(results: GradingResult[], store: ReviewStore): GradingResult[] {
+  return results.map((result) => applyReview(result, store));
+}
+
+/**
+ * Replaces each offer's feed status with the latest reviewed status, so the default CURATED exclusion and
+ * --status filters see editors' decisions.
+ */
+export function applyReviewStatuses(offers: StructuredOffer[], store: ReviewStore): StructuredOffer[] {
+  return offers.map((offer) => {
+    const status = store.statusFor(String(offer.activity_id ?? ''));
+    return status ? { ...offer, status } : offer;
+  });
+}
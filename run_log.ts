@@ -0,0 +1,119 @@
+/**
+ * run_log.ts
+ *
+ * Structured logging for the pipeline. Every line goes to stderr as one JSON object (or, with `logFormat`
+ * "text", one readable line) holding the time, level, event name, the run ID and activity ID in scope, a
+ * message and the event's fields. Run and offer context travels with AsyncLocalStorage, so code deep inside a
+ * grading call (retries, cache reads, image decoding) logs against the right run and offer without being
+ * handed a logger. `span` times one step of an offer (load, prompt build, model call, parse) and logs its
+ * duration. Command output meant for the person at the terminal stays on stdout in cli.ts.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'json' | 'text';
+export type LogFields = Record<string, unknown>;
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+export const LOG_FORMATS: LogFormat[] = ['json', 'text'];
+
+export interface LogContext {
+  run_id?: string | null;
+  // offerKey() of the offer being worked on, and the ensemble pass when grading in several passes.
+  activity_id?: string | null;
+  pass?: number;
+}
+
+export interface LogSettings {
+  level: LogLevel;
+  format: LogFormat;
+  write: (line: string) => void;
+}
+
+const contextStore = new AsyncLocalStorage<LogContext>();
+const settings: LogSettings = {
+  level: 'info',
+  format: 'json',
+  write: (line) => process.stderr.write(`${line}\n`),
+};
+
+// --- Section: Settings and context ---
+export function configureLogging(options: Partial<LogSettings>): void {
+  Object.assign(settings, options);
+}
+
+/**
+ * Runs `fn` with `context` merged over the current one; log lines written inside it, including from awaited
+ * calls, carry its run and activity IDs.
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStore.run({ ...contextStore.getStore(), ...context }, fn);
+}
+
+export function currentLogContext(): LogContext {
+  return contextStore.getStore() ?? {};
+}
+
+// --- Section: Writing lines ---
+function formatText(entry: LogFields): string {
+  const { ts, level, run_id, activity_id, event, msg, ...fields } = entry;
+  const extra = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+  const scope = [run_id ?? '-', activity_id ?? '-'].join(' ');
+  return [`${ts} ${String(level).toUpperCase().padEnd(5)} ${scope} ${event}: ${msg}`, ...extra].join(' ');
+}
+
+function emit(level: LogLevel, event: string, message: string, fields: LogFields = {}): void {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(settings.level)) {
+    return;
+  }
+  const context = currentLogContext();
+  const entry: LogFields = {
+    ts: new Date().toISOString(),
+    level,
+    run_id: context.run_id ?? null,
+    activity_id: context.activity_id ?? null,
+    ...(context.pass != null ? { pass: context.pass } : {}),
+    event,
+    msg: message,
+    ...fields,
+  };
+  settings.write(settings.format === 'json' ? JSON.stringify(entry) : formatText(entry));
+}
+
+export const log = {
+  debug: (event: string, message: string, fields?: LogFields) => emit('debug', event, message, fields),
+  info: (event: string, message: string, fields?: LogFields) => emit('info', event, message, fields),
+  warn: (event: string, message: string, fields?: LogFields) => emit('warn', event, message, fields),
+  error: (event: string, message: string, fields?: LogFields) => emit('error', event, message, fields),
+};
+
+// An error's message and name as log fields, instead of the raw object.
+export function errorFields(error: unknown): LogFields {
+  if (error instanceof Error) {
+    return { error: error.message, error_name: error.name };
+  }
+  return { error: String(error) };
+}
+
+// --- Section: Timing spans ---
+/**
+ * Times `fn` and logs a `span` event with `duration_ms`, at warn level with the error when `fn` throws.
+ */
+export async function span<T>(name: string, fn: () => Promise<T> | T, fields: LogFields = {}): Promise<T> {
+  const startedAt = performance.now();
+  const elapsed = () => Math.round((performance.now() - startedAt) * 10) / 10;
+  try {
+    const value = await fn();
+    const ms = elapsed();
+    emit('info', 'span', `${name} took ${ms} ms`, { span: name, duration_ms: ms, ...fields });
+    return value;
+  } catch (error) {
+    const ms = elapsed();
+    const failure = { span: name, duration_ms: ms, ...fields, ...errorFields(error) };
+    emit('warn', 'span', `${name} failed after ${ms} ms`, failure);
+    throw error;
+  }
+}
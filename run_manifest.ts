@@ -0,0 +1,295 @@
+/**
+ * run_manifest.ts
+ *
+ * Spend and provenance for grading runs. Every run writes `<manifestDir>/<run_id>.json` with the git
+ * revision, model settings, a hash of the system prompt, timings, outcome counts and per-offer token usage,
+ * latency and estimated cost. Costs come from a price table in USD per million tokens; `priceTable` in the
+ * config file overrides or extends `DEFAULT_PRICE_TABLE`. The budget tracker stops new offers from being
+ * queued once the projected spend would exceed `budgetUsd`.
+ */
+
+import { execFile } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { promisify } from 'util';
+import type { GradingRequest, TokenUsage } from './grading_providers.js';
+import type { GradingResult } from './offer_curation.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const execFileAsync = promisify(execFile);
+
+// Rough input-token cost of one image at detail "auto", used only before any real usage is known.
+const IMAGE_INPUT_TOKENS = 1100;
+const CHARS_PER_TOKEN = 4;
+// Allowance for the validation errors and instructions a repair prompt adds to the quoted response.
+const REPAIR_OVERHEAD_TOKENS = 500;
+
+export interface ModelPrice {
+  // USD per million tokens. Reasoning tokens are billed as output.
+  input: number;
+  cached_input: number;
+  output: number;
+}
+
+export type OfferOutcome = 'graded' | 'failed' | 'cached' | 'over_budget';
+export const OFFER_OUTCOMES: OfferOutcome[] = ['graded', 'failed', 'cached', 'over_budget'];
+
+export interface OfferManifestEntry {
+  activity_id: string;
+  outcome: OfferOutcome;
+  attempts: number;
+  latency_ms: number | null;
+  usage: TokenUsage;
+  // Null when the model has no price in the table; cached and over-budget offers cost nothing this run.
+  cost_usd: number | null;
+}
+
+export interface RunManifest {
+  run_id: string;
+  git_revision: string | null;
+  git_dirty: boolean | null;
+  provider: string;
+  model: string;
+  reasoning_effort: string;
+  max_output_tokens: number;
+  prompt_version: string;
+  // Hash of the rendered system prompt, so edits to a version's files show up between runs.
+  prompt_hash: string;
+  price: ModelPrice | null;
+  budget_usd: number | null;
+  started_at: string;
+  finished_at: string;
+  counts: Record<OfferOutcome, number>;
+  totals: { usage: TokenUsage; cost_usd: number | null; latency_ms: number };
+  offers: OfferManifestEntry[];
+}
+
+export const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  'gpt-5': { input: 1.25, cached_input: 0.125, output: 10 },
+  'gpt-5-mini': { input: 0.25, cached_input: 0.025, output: 2 },
+  'gpt-5-nano': { input: 0.05, cached_input: 0.005, output: 0.4 },
+};
+
+// --- Section: Usage and cost ---
+export function emptyUsage(): TokenUsage {
+  return { input_tokens: 0, cached_input_tokens: 0, output_tokens: 0, reasoning_tokens: 0 };
+}
+
+export function addUsage(total: TokenUsage, usage: TokenUsage | null | undefined): TokenUsage {
+  if (usage) {
+    total.input_tokens += usage.input_tokens;
+    total.cached_input_tokens += usage.cached_input_tokens;
+    total.output_tokens += usage.output_tokens;
+    total.reasoning_tokens += usage.reasoning_tokens;
+  }
+  return total;
+}
+
+export function priceFor(model: string, overrides: Record<string, ModelPrice> = {}): ModelPrice | null {
+  return overrides[model] ?? DEFAULT_PRICE_TABLE[model] ?? null;
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+export function estimateCost(usage: TokenUsage, price: ModelPrice): number {
+  const uncached = Math.max(0, usage.input_tokens - usage.cached_input_tokens);
+  const cost =
+    uncached * price.input + usage.cached_input_tokens * price.cached_input + usage.output_tokens * price.output;
+  return roundUsd(cost / 1e6);
+}
+
+/**
+ * Upper bound for one model call before any real usage is known: the prompt at ~4 characters per token,
+ * a flat allowance per image, and the full output token cap.
+ */
+export function estimateRequestCost(request: GradingRequest, maxOutputTokens: number, price: ModelPrice): number {
+  const inputTokens =
+    Math.ceil((request.instructions.length + request.prompt.length) / CHARS_PER_TOKEN) +
+    request.images.length * IMAGE_INPUT_TOKENS;
+  return estimateCost(
+    { input_tokens: inputTokens, cached_input_tokens: 0, output_tokens: maxOutputTokens, reasoning_tokens: 0 },
+    price
+  );
+}
+
+/**
+ * Upper bound for grading one offer: the first call plus up to `maxAttempts - 1` repair calls, each of which
+ * re-sends the prompt with the previous response (at most the output cap) and its validation errors.
+ */
+export function estimateGradingCost(
+  request: GradingRequest,
+  maxOutputTokens: number,
+  maxAttempts: number,
+  price: ModelPrice
+): number {
+  const first = estimateRequestCost(request, maxOutputTokens, price);
+  const quoted = estimateCost(
+    {
+      input_tokens: maxOutputTokens + REPAIR_OVERHEAD_TOKENS,
+      cached_input_tokens: 0,
+      output_tokens: 0,
+      reasoning_tokens: 0,
+    },
+    price
+  );
+  return roundUsd(first + Math.max(0, maxAttempts - 1) * (first + quoted));
+}
+
+// --- Section: Budget ---
+export interface BudgetTracker {
+  readonly limitUsd: number;
+  readonly spentUsd: number;
+  // Reserves the projected cost of one more offer and returns it; null when it would exceed the limit.
+  reserve(upperBoundUsd: number): number | null;
+  settle(reservedUsd: number, actualUsd: number): void;
+}
+
+/**
+ * Projects spend as the cost already incurred plus a reservation for every offer in flight. Until an offer
+ * finishes the reservation is the request's upper bound; after that it is the average actual cost per offer.
+ */
+export function createBudgetTracker(limitUsd: number): BudgetTracker {
+  let spent = 0;
+  let reserved = 0;
+  let finished = 0;
+
+  return {
+    limitUsd,
+    get spentUsd() {
+      return roundUsd(spent);
+    },
+    reserve(upperBoundUsd: number): number | null {
+      const projected = finished ? spent / finished : upperBoundUsd;
+      if (spent + reserved + projected > limitUsd) {
+        return null;
+      }
+      reserved += projected;
+      return projected;
+    },
+    settle(reservedUsd: number, actualUsd: number): void {
+      reserved -= reservedUsd;
+      spent += actualUsd;
+      finished += 1;
+    },
+  };
+}
+
+// --- Section: Manifest ---
+async function gitState(): Promise<{ revision: string | null; dirty: boolean | null }> {
+  try {
+    const { stdout: revision } = await execFileAsync('git', ['rev-parse', 'HEAD'], { cwd: __dirname });
+    const { stdout: status } = await execFileAsync('git', ['status', '--porcelain'], { cwd: __dirname });
+    return { revision: revision.trim(), dirty: Boolean(status.trim()) };
+  } catch {
+    return { revision: null, dirty: null };
+  }
+}
+
+export function createRunId(startedAt: Date): string {
+  const stamp = startedAt.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  return `${stamp}-${crypto.randomBytes(3).toString('hex')}`;
+}
+
+export function hashPrompt(systemPrompt: string): string {
+  return crypto.createHash('sha256').update(systemPrompt).digest('hex').slice(0, 16);
+}
+
+export function manifestEntry(
+  result: GradingResult,
+  outcome: OfferOutcome,
+  price: ModelPrice | null
+): OfferManifestEntry {
+  const usage = outcome === 'cached' ? emptyUsage() : addUsage(emptyUsage(), result.usage);
+  return {
+    activity_id: String(result.activity_id ?? ''),
+    outcome,
+    attempts: outcome === 'cached' ? 0 : result.attempts,
+    latency_ms: outcome === 'cached' ? null : (result.latency_ms ?? null),
+    usage,
+    cost_usd: price ? estimateCost(usage, price) : null,
+  };
+}
+
+export function overBudgetEntry(activityId: string, price: ModelPrice | null): OfferManifestEntry {
+  return {
+    activity_id: activityId,
+    outcome: 'over_budget',
+    attempts: 0,
+    latency_ms: null,
+    usage: emptyUsage(),
+    cost_usd: price ? 0 : null,
+  };
+}
+
+export interface ManifestSettings {
+  runId: string;
+  provider: string;
+  model: string;
+  reasoningEffort: string;
+  maxOutputTokens: number;
+  promptVersion: string;
+  systemPrompt: string;
+  price: ModelPrice | null;
+  budgetUsd: number | null;
+  startedAt: Date;
+}
+
+export async function buildRunManifest(
+  settings: ManifestSettings,
+  entries: OfferManifestEntry[]
+): Promise<RunManifest> {
+  const counts = Object.fromEntries(OFFER_OUTCOMES.map((outcome) => [outcome, 0])) as Record<OfferOutcome, number>;
+  const usage = emptyUsage();
+  let latency = 0;
+  for (const entry of entries) {
+    counts[entry.outcome] += 1;
+    addUsage(usage, entry.usage);
+    latency += entry.latency_ms ?? 0;
+  }
+  const git = await gitState();
+  return {
+    run_id: settings.runId,
+    git_revision: git.revision,
+    git_dirty: git.dirty,
+    provider: settings.provider,
+    model: settings.model,
+    reasoning_effort: settings.reasoningEffort,
+    max_output_tokens: settings.maxOutputTokens,
+    prompt_version: settings.promptVersion,
+    prompt_hash: hashPrompt(settings.systemPrompt),
+    price: settings.price,
+    budget_usd: settings.budgetUsd,
+    started_at: settings.startedAt.toISOString(),
+    finished_at: new Date().toISOString(),
+    counts,
+    totals: {
+      usage,
+      cost_usd: settings.price ? roundUsd(entries.reduce((total, entry) => total + (entry.cost_usd ?? 0), 0)) : null,
+      latency_ms: latency,
+    },
+    offers: entries,
+  };
+}
+
+export async function writeRunManifest(manifest: RunManifest, directory: string): Promise<string> {
+  await fs.promises.mkdir(directory, { recursive: true });
+  const filePath = path.join(directory, `${manifest.run_id}.json`);
+  await fs.promises.writeFile(filePath, `${JSON.stringify(manifest, null, 2)}\n`, 'utf-8');
+  return filePath;
+}
+
+export function describeManifest(manifest: RunManifest): string {
+  const { usage, cost_usd: cost } = manifest.totals;
+  const counts = OFFER_OUTCOMES.map((outcome) => `${manifest.counts[outcome]} ${outcome.replace('_', ' ')}`);
+  const spend = cost == null ? `no price for ${manifest.model}` : `~$${cost.toFixed(4)}`;
+  return (
+    `Run ${manifest.run_id}: ${counts.join(', ')}; ` +
+    `${usage.input_tokens} input / ${usage.output_tokens} output (${usage.reasoning_tokens} reasoning) tokens, ` +
+    `${spend}.`
+  );
+}
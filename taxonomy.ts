@@ -0,0 +1,162 @@
+/**
+ * taxonomy.ts
+ *
+ * The storefront taxonomy (parent categories and their leaves) and target audiences, plus the mapping
+ * from Klook leaf category IDs to our leaves. The system prompt template, the grading schema and the mapping
+ * all read from this module, so the prompt and validation cannot drift apart.
+ */
+
+import type { KlookCategoryInfo } from './klook_schema.js';
+
+export interface TaxonomyParent {
+  name: string;
+  leaves: string[];
+}
+
+export interface KlookCategoryMapping {
+  klook_name: string;
+  leaves: string[];
+}
+
+export interface CategorySuggestion {
+  klook_leaf_id: number | null;
+  klook_leaf_name: string;
+  // Empty when the Klook leaf category has no entry in the mapping table.
+  leaves: string[];
+}
+
+// --- Section: Storefront taxonomy ---
+export const STOREFRONT_TAXONOMY: TaxonomyParent[] = [
+  {
+    name: 'Wine & Dine',
+    leaves: [
+      'Fine dining',
+      'Restaurants & bars',
+      'Cafés',
+      'High tea',
+      'Food tours',
+      'Wine country trips',
+      'Breweries, distilleries & vineyards',
+    ],
+  },
+  {
+    name: 'Top Activities',
+    leaves: [
+      'Yachts, boats & cruises',
+      'Cooking classes',
+      'Up in the air',
+      'Outdoor activities',
+      'Watersports',
+      'Indoor activities',
+      'Photoshoot - Travelshoot',
+      'Wildlife Cruises',
+      'Cinemas',
+      'Golf',
+      'Ski',
+      'Beach & Pool Clubs',
+      'School Holidays',
+    ],
+  },
+  {
+    name: 'Attractions & Tickets',
+    leaves: [
+      'Theme & water parks',
+      'Attraction passes',
+      'Museums',
+      'Zoos & aquariums',
+      'Historical sites',
+      'Galleries',
+    ],
+  },
+  {
+    name: 'Live Events',
+    leaves: ['Concerts', 'Theatre', 'Live sports', 'Special Events'],
+  },
+  {
+    name: 'Indulge Yourself',
+    leaves: ['Spa & massage', 'Hot springs', 'Wellness'],
+  },
+  {
+    name: 'Lux Exclusives',
+    leaves: ['The best of the best'],
+  },
+  {
+    name: 'Travel Essentials',
+    leaves: ['Airport lounges', 'Luggage', 'Airport Services', 'Water Transfers'],
+  },
+  {
+    name: 'Day Tours',
+    leaves: ['Guided tours', 'Walking tours', 'Bike tours', 'Hop-on-hop-off', 'Private tours'],
+  },
+  {
+    name: 'Gift Inspiration',
+    leaves: ['Foodie', 'Thrill Seeker', 'Animal Lover', 'Spa-goer', 'Family', 'Aquatic Enthusiast'],
+  },
+];
+
+export const CATEGORY_LEAVES: string[] = STOREFRONT_TAXONOMY.flatMap((parent) => parent.leaves);
+
+export const TARGET_AUDIENCES = ['Solo', 'Couple', 'Group', 'Family'];
+
+export function parentCategoryOf(leaf: string): string | null {
+  return STOREFRONT_TAXONOMY.find((parent) => parent.leaves.includes(leaf))?.name ?? null;
+}
+
+/**
+ * Renders the taxonomy as the parent-to-leaves JSON object substituted for `{{taxonomy}}` in the system prompt.
+ */
+export function renderTaxonomyForPrompt(): string {
+  const tree: Record<string, string[]> = {};
+  for (const parent of STOREFRONT_TAXONOMY) {
+    tree[parent.name] = parent.leaves;
+  }
+  return JSON.stringify(tree, null, 2);
+}
+
+// --- Section: Klook category mapping ---
+/**
+ * Klook `category_info.leaf_category_id` to storefront leaves. Add rows here as new Klook leaves show up
+ * in the feed; `categoryMap` in the config file overrides or extends this table without a code change.
+ */
+export const KLOOK_CATEGORY_MAP: Record<number, KlookCategoryMapping> = {
+  108: { klook_name: 'Aquariums', leaves: ['Zoos & aquariums'] },
+  120: { klook_name: 'Attractions Pass', leaves: ['Attraction passes'] },
+};
+
+export function suggestCategories(
+  detail: KlookCategoryInfo | null | undefined,
+  overrides: Record<string, string[]> = {}
+): CategorySuggestion | null {
+  if (!detail) {
+    return null;
+  }
+  const leafId = detail.leaf_category_id ?? null;
+  const key = leafId == null ? null : String(leafId);
+  const leaves =
+    key != null && key in overrides ? overrides[key] : leafId != null ? KLOOK_CATEGORY_MAP[leafId]?.leaves : undefined;
+  return {
+    klook_leaf_id: leafId,
+    klook_leaf_name: (detail.leaf_category_name || '').trim(),
+    leaves: leaves ?? [],
+  };
+}
+
+export function describeSuggestion(suggestion: CategorySuggestion | null): string {
+  if (!suggestion) {
+    return 'N/A (offer has no Klook category)';
+  }
+  const source = `Klook leaf ${suggestion.klook_leaf_id ?? '?'} "${suggestion.klook_leaf_name}"`;
+  return suggestion.leaves.length
+    ? `${suggestion.leaves.join(', ')} (mapped from ${source})`
+    : `none (${source} is not mapped)`;
+}
+
+/**
+ * True when the categories share no leaf with the suggested leaves. Unmapped offers (no suggestion) never mismatch.
+ */
+export function isCategoryMismatch(categories: string[], suggested: string[]): boolean {
+  if (!suggested.length) {
+    return false;
+  }
+  return !suggested.some((leaf) => categories.includes(leaf));
+}
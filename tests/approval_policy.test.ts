@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { after, test } from 'node:test';
+import { evaluatePolicy, loadPolicy, offerFacts } from '../approval_policy.js';
+import { gradingResult, removeTempDirs, tempDir } from './helpers.js';
+
+after(removeTempDirs);
+
+const BUNDLED_POLICY = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'policies', 'approval.json');
+
+async function writePolicy(policy: unknown): Promise<string> {
+  const filePath = path.join(await tempDir(), 'policy.json');
+  await fs.promises.writeFile(filePath, JSON.stringify(policy), 'utf-8');
+  return filePath;
+}
+
+test('the bundled policy loads', async () => {
+  const policy = await loadPolicy(BUNDLED_POLICY);
+  assert.equal(policy.source, 'approval.json');
+  assert.ok(policy.rules.length > 0);
+});
+
+test('the first matching rule decides, and the default covers the rest', async () => {
+  const policy = await loadPolicy(
+    await writePolicy({
+      default: 'needs_review',
+      rules: [
+        { id: 'invalid', decision: 'reject', when: { valid: { eq: false } } },
+        { id: 'strong', decision: 'approve', when: { score: { gte: 4 } } },
+        { id: 'also-strong', decision: 'skip', when: { score: { gte: 4 } } },
+      ],
+    })
+  );
+  const decide = (score: number | null, valid = true) =>
+    evaluatePolicy(policy, offerFacts(gradingResult({ score, valid }), null));
+  assert.deepEqual(decide(5), { decision: 'approve', rule: 'strong', policy: 'policy.json' });
+  assert.equal(decide(5, false).rule, 'invalid');
+  assert.deepEqual(decide(2), { decision: 'needs_review', rule: null, policy: 'policy.json' });
+});
+
+test('a policy without a default needs review', async () => {
+  const policy = await loadPolicy(await writePolicy({ rules: [] }));
+  assert.equal(policy.default, 'needs_review');
+});
+
+const INVALID_POLICIES: Array<[string, unknown, RegExp]> = [
+  ['no rules array', { default: 'approve' }, /must be an object with a "rules" array/],
+  ['an unknown default', { default: 'publish', rules: [] }, /default must be one of/],
+  ['a rule without an id', { rules: [{ decision: 'approve' }] }, /id must be a non-empty string/],
+  [
+    'a repeated rule id',
+    { rules: [{ id: 'a', decision: 'approve' }, { id: 'a', decision: 'reject' }] },
+    /id "a" is used by an earlier rule/,
+  ],
+  ['an unknown decision', { rules: [{ id: 'a', decision: 'publish' }] }, /decision must be one of/],
+  ['an unknown fact', { rules: [{ id: 'a', decision: 'skip', when: { stars: { eq: 5 } } }] }, /unknown fact "stars"/],
+  [
+    'an operator the fact kind does not support',
+    { rules: [{ id: 'a', decision: 'skip', when: { valid: { gt: true } } }] },
+    /"valid" is a boolean fact/,
+  ],
+  [
+    'an operand of the wrong type',
+    { rules: [{ id: 'a', decision: 'skip', when: { score: { gte: 'high' } } }] },
+    /"score" gte needs a value matching the number fact/,
+  ],
+  [
+    'in without an array',
+    { rules: [{ id: 'a', decision: 'skip', when: { city: { in: 'Chicago' } } }] },
+    /"city" in needs an array of values/,
+  ],
+  ['empty conditions', { rules: [{ id: 'a', decision: 'skip', when: { score: {} } }] }, /must be an object such as/],
+];
+
+for (const [label, policy, message] of INVALID_POLICIES) {
+  test(`a policy with ${label} is rejected`, async () => {
+    await assert.rejects(loadPolicy(await writePolicy(policy)), message);
+  });
+}
+
+test('a policy that is not JSON is rejected', async () => {
+  const filePath = path.join(await tempDir(), 'policy.json');
+  await fs.promises.writeFile(filePath, '{ "rules": [', 'utf-8');
+  await assert.rejects(loadPolicy(filePath), /Failed to read approval policy/);
+});
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { aggregatePasses, EnsemblePass } from '../ensemble.js';
+import { gradingResult } from './helpers.js';
+
+function passes(count: number): EnsemblePass[] {
+  return Array.from({ length: count }, (_, index) => ({ pass: index + 1, effort: 'medium' }));
+}
+
+const USAGE = { input_tokens: 100, cached_input_tokens: 0, output_tokens: 20, reasoning_tokens: 5 };
+
+test('agreeing passes are folded into one auto-approved result', () => {
+  const result = aggregatePasses(
+    [gradingResult({ usage: USAGE }), gradingResult({ usage: USAGE }), gradingResult({ usage: USAGE })],
+    passes(3),
+    0.8
+  );
+  assert.equal(result.score, 4);
+  assert.equal(result.attempts, 3);
+  assert.deepEqual(result.usage, {
+    input_tokens: 300,
+    cached_input_tokens: 0,
+    output_tokens: 60,
+    reasoning_tokens: 15,
+  });
+  assert.equal(result.ensemble?.confidence, 1);
+  assert.equal(result.ensemble?.route, 'auto_approve');
+  assert.deepEqual(result.ensemble?.route_reasons, []);
+});
+
+test('the score is the median of the valid passes, and majority votes pick the lists', () => {
+  const result = aggregatePasses(
+    [
+      gradingResult({ score: 3, categories: ['Tours', 'Attraction passes'] }),
+      gradingResult({ score: 4, categories: ['Attraction passes'] }),
+      gradingResult({ score: 4, categories: ['Attraction passes', 'Museums'] }),
+    ],
+    passes(3),
+    0.5
+  );
+  assert.equal(result.score, 4);
+  assert.equal(result.ensemble?.score_spread, 1);
+  assert.deepEqual(result.categories, ['Attraction passes']);
+  assert.equal(result.ensemble?.disputed, false);
+});
+
+test('a wide score spread is disputed and goes to human review', () => {
+  const result = aggregatePasses(
+    [gradingResult({ score: 2 }), gradingResult({ score: 4 }), gradingResult({ score: 4 })],
+    passes(3),
+    0
+  );
+  assert.equal(result.ensemble?.disputed, true);
+  assert.equal(result.ensemble?.route, 'human_review');
+  assert.deepEqual(result.ensemble?.route_reasons, ['Pass scores range from 2 to 4.']);
+});
+
+test('invalid passes lower confidence and are listed as a review reason', () => {
+  const result = aggregatePasses(
+    [gradingResult(), gradingResult({ valid: false, score: null })],
+    passes(2),
+    0.4
+  );
+  assert.deepEqual(result.ensemble?.scores, [4, null]);
+  assert.equal(result.ensemble?.confidence, 0.5);
+  assert.deepEqual(result.ensemble?.route_reasons, ['1 of 2 passes produced invalid output.']);
+});
+
+test('an ensemble with no valid pass keeps the first result and needs review', () => {
+  const result = aggregatePasses(
+    [gradingResult({ valid: false, score: null, reason: 'first' }), gradingResult({ valid: false, score: null })],
+    passes(2),
+    0
+  );
+  assert.equal(result.reason, 'first');
+  assert.equal(result.ensemble?.score_median, null);
+  assert.equal(result.ensemble?.route, 'human_review');
+  assert.deepEqual(result.ensemble?.route_reasons, ['No pass produced valid output.']);
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { after, test } from 'node:test';
+import { writeExports } from '../exporters.js';
+import { gradingResult, removeTempDirs, silenceLogs, tempDir } from './helpers.js';
+
+silenceLogs();
+after(removeTempDirs);
+
+// Splits one RFC 4180 record into its fields.
+function parseCsvRecord(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+async function exportReason(reason: string): Promise<{ line: string; cell: string }> {
+  const outputPath = path.join(await tempDir(), 'graded.csv');
+  await writeExports([gradingResult({ reason })], [], ['csv'], outputPath);
+  const [header, line] = (await fs.promises.readFile(outputPath, 'utf-8')).split('\r\n');
+  return { line, cell: parseCsvRecord(line)[parseCsvRecord(header).indexOf('reason')] };
+}
+
+test('csv prefixes cells that spreadsheets would run as formulas', async () => {
+  for (const reason of ['=SUM(A1:A2)', '+1 stars', '-1 stars', '@handle', '\tindented']) {
+    assert.equal((await exportReason(reason)).cell, `'${reason}`);
+  }
+});
+
+test('csv leaves ordinary text as it is', async () => {
+  assert.equal((await exportReason('Good value 4-star hotel pass')).cell, 'Good value 4-star hotel pass');
+});
+
+test('csv quotes a prefixed cell that also needs quoting', async () => {
+  const { line, cell } = await exportReason('=HYPERLINK("https://example.com"), then more');
+  assert.equal(cell, `'=HYPERLINK("https://example.com"), then more`);
+  assert.ok(line.includes(`"'=HYPERLINK(""https://example.com""), then more"`));
+});
@@ -0,0 +1,63 @@
+/**
+ * tests/helpers.ts
+ *
+ * Shared builders for the node:test suites. Run every suite with `node --import tsx --test tests/*.test.ts`.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { GradingResult } from '../offer_curation.js';
+import { configureLogging } from '../run_log.js';
+
+// Keeps log lines out of the test reporter's output.
+export function silenceLogs(): void {
+  configureLogging({ write: () => {} });
+}
+
+// A valid single-pass result; tests override only the fields they exercise.
+export function gradingResult(overrides: Partial<GradingResult> = {}): GradingResult {
+  return {
+    activity_id: 1,
+    score: 4,
+    reason: 'Clear offer with good images.',
+    categories: ['Attraction passes'],
+    target_audiences: ['Families'],
+    hero_image_index: 1,
+    hero_image_url: 'https://res.klook.com/image/upload/activities/hero.jpg',
+    hero_image_reason: 'Shows the attraction.',
+    response_id: null,
+    valid: true,
+    validation_errors: [],
+    attempts: 1,
+    lint_findings: [],
+    suggested_categories: [],
+    category_mismatch: false,
+    package_overview: {
+      package_count: 1,
+      age_bands: [],
+      has_child_sku: false,
+      min_pax: null,
+      max_pax: null,
+      cancellation_summary: '',
+      instant_confirmation: 'all',
+      open_date: 'none',
+    },
+    audience_flags: [],
+    hero_flags: [],
+    ...overrides,
+  };
+}
+
+const tempDirs: string[] = [];
+
+export async function tempDir(): Promise<string> {
+  const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'offer-grading-test-'));
+  tempDirs.push(directory);
+  return directory;
+}
+
+// Register with node:test's `after` in suites that call tempDir.
+export async function removeTempDirs(): Promise<void> {
+  await Promise.all(tempDirs.splice(0).map((directory) => fs.promises.rm(directory, { recursive: true, force: true })));
+}
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { computeBackoffDelay, createAdaptiveLimiter, parseRetryAfter, RetryOptions } from '../retry_policy.js';
+import { silenceLogs } from './helpers.js';
+
+silenceLogs();
+
+const RETRY: RetryOptions = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+function nextMillisecond(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 5));
+}
+
+test('a rate limit halves the limit once for every call it caught', async () => {
+  const limiter = createAdaptiveLimiter({ max: 8 });
+  const startedAt = Date.now();
+  await nextMillisecond();
+  for (let call = 0; call < 6; call += 1) {
+    limiter.onRateLimited(null, startedAt);
+  }
+  assert.equal(limiter.limit, 4);
+
+  await nextMillisecond();
+  limiter.onRateLimited(null, Date.now());
+  assert.equal(limiter.limit, 2);
+});
+
+test('the limit never drops below min', async () => {
+  const limiter = createAdaptiveLimiter({ max: 4, min: 3 });
+  limiter.onRateLimited(null, Date.now());
+  await nextMillisecond();
+  limiter.onRateLimited(null, Date.now());
+  assert.equal(limiter.limit, 3);
+});
+
+test('steady successes win the slots back one at a time, up to max', () => {
+  const limiter = createAdaptiveLimiter({ max: 4, recoverAfter: 2 });
+  limiter.onRateLimited(null, Date.now());
+  assert.equal(limiter.limit, 2);
+  limiter.onSuccess();
+  assert.equal(limiter.limit, 2);
+  limiter.onSuccess();
+  assert.equal(limiter.limit, 3);
+  for (let call = 0; call < 10; call += 1) {
+    limiter.onSuccess();
+  }
+  assert.equal(limiter.limit, 4);
+});
+
+test('a rate limit resets the success streak', () => {
+  const limiter = createAdaptiveLimiter({ max: 4, recoverAfter: 2 });
+  limiter.onRateLimited(null, Date.now());
+  limiter.onSuccess();
+  limiter.onRateLimited(null, 0);
+  limiter.onSuccess();
+  assert.equal(limiter.limit, 2);
+});
+
+test('the limiter never runs more tasks than the limit', async () => {
+  const limiter = createAdaptiveLimiter({ max: 2 });
+  let running = 0;
+  let peak = 0;
+  const task = async () => {
+    running += 1;
+    peak = Math.max(peak, running);
+    await nextMillisecond();
+    running -= 1;
+  };
+  await Promise.all(Array.from({ length: 6 }, () => limiter.run(task)));
+  assert.equal(peak, 2);
+});
+
+test('parseRetryAfter reads retry-after-ms before retry-after', () => {
+  assert.equal(parseRetryAfter({ 'retry-after-ms': '1500', 'retry-after': '9' }), 1500);
+});
+
+test('parseRetryAfter reads retry-after in seconds', () => {
+  assert.equal(parseRetryAfter({ 'retry-after': '2' }), 2000);
+  assert.equal(parseRetryAfter(new Headers({ 'retry-after': '3' })), 3000);
+});
+
+test('parseRetryAfter reads retry-after as an HTTP date', () => {
+  const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+  assert.equal(parseRetryAfter({ 'retry-after': 'Wed, 21 Oct 2026 07:28:30 GMT' }, now), 30000);
+  assert.equal(parseRetryAfter({ 'retry-after': 'Wed, 21 Oct 2026 07:27:00 GMT' }, now), 0);
+});
+
+test('parseRetryAfter ignores missing and unreadable headers', () => {
+  assert.equal(parseRetryAfter(undefined), null);
+  assert.equal(parseRetryAfter({}), null);
+  assert.equal(parseRetryAfter({ 'retry-after': 'soon' }), null);
+});
+
+test('backoff never waits less than Retry-After', () => {
+  assert.equal(computeBackoffDelay(1, RETRY, 5000, () => 0), 5000);
+  assert.equal(computeBackoffDelay(1, RETRY, 5000, () => 1), 5000);
+  assert.equal(computeBackoffDelay(3, RETRY, 100, () => 1), 4000);
+});
+
+test('backoff jitter stays under the doubling ceiling and maxDelayMs', () => {
+  assert.equal(computeBackoffDelay(1, RETRY, null, () => 0), 0);
+  assert.equal(computeBackoffDelay(2, RETRY, null, () => 1), 2000);
+  assert.equal(computeBackoffDelay(10, RETRY, null, () => 1), 30000);
+});